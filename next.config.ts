@@ -1,7 +1,15 @@
 import type { NextConfig } from "next";
 
+// The GitHub Pages workflow builds a static export served under the
+// repository's path (see .github/workflows/deploy.yml). Any other build runs on
+// a server, which also answers the /api routes the Postgres storage needs.
+const staticExport = process.env.NEXT_PUBLIC_STATIC_EXPORT === "true";
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  output: staticExport ? "export" : undefined,
+  basePath: process.env.NEXT_PUBLIC_BASE_PATH || "",
+  // Server-only route handlers are named route.server.ts, so the export leaves them out
+  pageExtensions: staticExport ? ["tsx", "ts", "jsx", "js"] : ["tsx", "ts", "jsx", "js", "server.ts"],
 };
 
 export default nextConfig;
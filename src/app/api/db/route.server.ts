@@ -0,0 +1,75 @@
+import { createHash, timingSafeEqual } from 'crypto'
+import { NextResponse } from 'next/server'
+import { createPostgresHandler, PostgresMethod } from '@/app/lib/postgres_handler'
+
+interface DBRequest {
+  method: PostgresMethod
+  args?: unknown[]
+}
+
+// Methods the Postgres storage client calls; nothing else on the handler is reachable
+const ALLOWED_METHODS: ReadonlySet<PostgresMethod> = new Set<PostgresMethod>([
+  'initializeDB',
+  'addExercise', 'getExercise', 'getAllExercises', 'updateExercise', 'deleteExercise',
+  'clearAllExercises', 'populateSampleExercises',
+  'addRecord', 'getRecord', 'getRecordsByExercise', 'getRecordsByDateRange', 'getAllRecords',
+  'putRecord', 'updateRecord', 'deleteRecord', 'clearAllRecords',
+  'getAllPlans', 'addPlan', 'updatePlan', 'deletePlan', 'clearAllPlans',
+  'getAllPrograms', 'addProgram', 'updateProgram', 'deleteProgram',
+  'replaceAllData',
+])
+
+const digest = (value: string) => createHash('sha256').update(value).digest()
+
+// Postgres error code for a unique violation, e.g. a plan name already taken
+const UNIQUE_VIOLATION = '23505'
+
+// Requests must carry the server's DB_API_TOKEN as a bearer token
+function isAuthorized(request: Request, token: string): boolean {
+  const header = request.headers.get('authorization') || ''
+  const match = header.match(/^Bearer (.+)$/)
+  // Compare digests so the check takes the same time whatever the length
+  return !!match && timingSafeEqual(digest(match[1]), digest(token))
+}
+
+// Single RPC endpoint behind the Postgres storage backend: the client sends
+// the ExerciseStorage method name and its arguments. The database is the one in
+// DATABASE_URL on the server.
+export async function POST(request: Request) {
+  const token = process.env.DB_API_TOKEN
+  if (!token || !process.env.DATABASE_URL) {
+    return NextResponse.json({ error: 'Postgres storage is not configured on this server' }, { status: 503 })
+  }
+  if (!isAuthorized(request, token)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let body: DBRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  if (!ALLOWED_METHODS.has(body.method)) {
+    return NextResponse.json({ error: `Unknown method: ${body.method}` }, { status: 400 })
+  }
+  if (body.args !== undefined && !Array.isArray(body.args)) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  try {
+    const handler = createPostgresHandler()
+    const method = handler[body.method] as (...args: unknown[]) => Promise<unknown>
+    const result = await method(...(body.args || []))
+    return NextResponse.json({ result: result ?? null })
+  } catch (error) {
+    console.error(`Postgres ${body.method} failed:`, error)
+    const message = error instanceof Error ? error.message : 'Database error'
+    // Named like IndexedDB's error, so the forms show the same duplicate-name message
+    if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+      return NextResponse.json({ error: message, name: 'ConstraintError' }, { status: 409 })
+    }
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { POST } from './route.server'
+
+const handler = { addPlan: vi.fn() }
+
+vi.mock('@/app/lib/postgres_handler', () => ({
+  createPostgresHandler: () => handler,
+}))
+
+const request = (body: unknown, token = 'secret') => new Request('http://localhost/api/db', {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+  body: JSON.stringify(body),
+})
+
+beforeEach(() => {
+  vi.stubEnv('DB_API_TOKEN', 'secret')
+  vi.stubEnv('DATABASE_URL', 'postgres://localhost/test')
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.restoreAllMocks()
+})
+
+describe('POST /api/db', () => {
+  it('rejects requests without the server token', async () => {
+    const response = await POST(request({ method: 'getAllPlans' }, 'wrong'))
+    expect(response.status).toBe(401)
+  })
+
+  it('rejects methods outside the allowlist', async () => {
+    const response = await POST(request({ method: 'query', args: ['DROP TABLE plans'] }))
+    expect(response.status).toBe(400)
+  })
+
+  it('reports a unique violation as a ConstraintError', async () => {
+    handler.addPlan.mockRejectedValueOnce(Object.assign(new Error('duplicate key value violates unique constraint "plans_name_key"'), { code: '23505' }))
+
+    const response = await POST(request({ method: 'addPlan', args: [{ name: 'Push' }] }))
+
+    expect(response.status).toBe(409)
+    expect(await response.json()).toMatchObject({ name: 'ConstraintError' })
+  })
+})
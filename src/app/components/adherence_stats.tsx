@@ -0,0 +1,71 @@
+'use client'
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { PlanAdherence, adherenceRate } from '../lib/adherence_utils'
+
+interface AdherenceStatsProps {
+  adherence: PlanAdherence
+  detailed?: boolean // Adds the weekly breakdown and the missed days
+}
+
+// Streaks and share of scheduled sessions done for one plan
+export default function AdherenceStats({ adherence, detailed = false }: AdherenceStatsProps) {
+  const [showMissed, setShowMissed] = useState(false)
+  const rate = adherenceRate(adherence)
+  const thisWeek = adherence.weeks[adherence.weeks.length - 1]
+  const maxScheduled = Math.max(1, ...adherence.weeks.map(week => week.scheduled))
+
+  if (rate === null) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">No scheduled sessions yet</p>
+  }
+
+  return (
+    <div className="text-sm">
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-gray-600 dark:text-gray-400">
+        <span>This week <b className="text-gray-900 dark:text-gray-100">{thisWeek.completed}/{thisWeek.scheduled}</b></span>
+        <span>Streak <b className="text-gray-900 dark:text-gray-100">{adherence.currentStreak}</b></span>
+        <span>Best <b className="text-gray-900 dark:text-gray-100">{adherence.longestStreak}</b></span>
+        <span>Kept <b className="text-gray-900 dark:text-gray-100">{Math.round(rate * 100)}%</b></span>
+      </div>
+
+      {detailed && (
+        <>
+          <div className="flex items-end gap-1 h-10 mt-3" aria-label="Sessions done per week">
+            {adherence.weeks.map(week => (
+              <div
+                key={week.weekStart}
+                title={`Week of ${format(parseISO(week.weekStart), 'MMM d')}: ${week.completed}/${week.scheduled}`}
+                className="relative flex-1 bg-gray-100 dark:bg-gray-700 rounded-sm"
+                style={{ height: `${week.scheduled / maxScheduled * 100}%` }}
+              >
+                <div
+                  className="absolute bottom-0 inset-x-0 bg-green-500 rounded-sm"
+                  style={{ height: `${week.scheduled ? week.completed / week.scheduled * 100 : 0}%` }}
+                />
+              </div>
+            ))}
+          </div>
+
+          {adherence.missed.length > 0 && (
+            <div className="mt-2">
+              <button
+                onClick={() => setShowMissed(!showMissed)}
+                onMouseDown={(e) => e.stopPropagation()}
+                onTouchStart={(e) => e.stopPropagation()}
+                className="text-xs text-red-600 dark:text-red-400 hover:underline"
+              >
+                {showMissed ? 'Hide' : 'Show'} {adherence.missed.length} missed day{adherence.missed.length === 1 ? '' : 's'}
+              </button>
+              {showMissed && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {adherence.missed.map(date => format(parseISO(date), 'EEE, MMM d')).join(' · ')}
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Plan } from '../lib/indexdb_handler'
+import { useExerciseDB } from '../lib/db_store'
+import { useAppConfig } from '../lib/config_store'
+import { hasSchedule } from '../lib/schedule_utils'
+import { PlanAdherence, loadAdherence, formatCompletionRule } from '../lib/adherence_utils'
+import AdherenceStats from './adherence_stats'
+
+// How well each scheduled plan has been kept, for the dashboard
+export default function AdherenceSummary() {
+  const db = useExerciseDB()
+  const { config } = useAppConfig()
+  const [plans, setPlans] = useState<Plan[]>([])
+  const [adherence, setAdherence] = useState<Map<number, PlanAdherence>>(new Map())
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const scheduled = (await db.getAllPlans()).filter(hasSchedule)
+        setAdherence(await loadAdherence(db, scheduled, config.completionRule))
+        setPlans(scheduled)
+      } catch (err) {
+        console.error('Error loading plan adherence:', err)
+      }
+    }
+    load()
+  }, [db, config.completionRule])
+
+  if (plans.length === 0) return null
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+      <div className="flex items-baseline justify-between border-b border-gray-200 dark:border-gray-700 pb-3 mb-4">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">Plan adherence</h2>
+        <span className="text-xs text-gray-500 dark:text-gray-400">Done = {formatCompletionRule(config.completionRule)}</span>
+      </div>
+      <div className="space-y-3">
+        {plans.map(plan => {
+          const planAdherence = plan.id !== undefined ? adherence.get(plan.id) : undefined
+          return planAdherence && (
+            <div key={plan.id}>
+              <p className="font-medium">{plan.name}</p>
+              <AdherenceStats adherence={planAdherence} />
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,355 @@
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import { Exercise } from '../lib/indexdb_handler'
+import { ExerciseStorage } from '../lib/db_store'
+import { useAppConfig } from '../lib/config_store'
+import { withPersonalRecordsMuted } from '../lib/pr_events'
+import { formatSets } from '../lib/record_utils'
+import { defaultCountFromSets } from '../lib/exercise_utils'
+import {
+  parseCSV, guessMapping, detectDateFormat, detectTimeFormat, unitFromHeader, buildImport,
+  IMPORT_FIELDS, DATE_FORMATS, TIME_FORMATS, ColumnMapping, ImportField, ImportPreview,
+} from '../lib/csv_utils'
+
+interface CsvImportProps {
+  db: ExerciseStorage
+  onComplete: (message: string) => void
+  onCancel: () => void
+}
+
+// Type to create an unknown exercise with, or 'skip' to leave its rows out
+type NewExerciseChoice = Exercise['type'] | 'skip'
+
+const PREVIEW_ROWS = 10
+
+export default function CsvImport({ db, onComplete, onCancel }: CsvImportProps) {
+  const { config } = useAppConfig()
+  const [step, setStep] = useState<'file' | 'map' | 'preview'>('file')
+  const [header, setHeader] = useState<string[]>([])
+  const [rows, setRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [dateFormat, setDateFormat] = useState(DATE_FORMATS[0])
+  const [timeFormat, setTimeFormat] = useState<string | null>(null)
+  const [defaultUnit, setDefaultUnit] = useState<'kg' | 'lbs'>(config.weightUnit)
+  const [exercises, setExercises] = useState<Exercise[]>([])
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [newExercises, setNewExercises] = useState<Record<string, NewExerciseChoice>>({})
+  const [error, setError] = useState('')
+  const [isImporting, setIsImporting] = useState(false)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    const loadExercises = async () => {
+      try {
+        setExercises(await db.getAllExercises())
+      } catch (err) {
+        console.error('Error loading exercises:', err)
+      }
+    }
+    loadExercises()
+  }, [db])
+
+  const columnValues = (column: number) => column >= 0 ? rows.map(row => row[column] ?? '') : []
+
+  // Guess the formats from the values in the mapped columns
+  const detectFormats = (nextMapping: ColumnMapping, dataRows: string[][]) => {
+    const values = (column: number) => column >= 0 ? dataRows.map(row => row[column] ?? '') : []
+    setDateFormat(detectDateFormat(values(nextMapping.date)) || DATE_FORMATS[0])
+    setTimeFormat(detectTimeFormat(values(nextMapping.time)))
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setError('')
+    const parsed = parseCSV(await file.text())
+    if (parsed.length < 2) {
+      setError('The file has no data rows')
+      return
+    }
+
+    const [fileHeader, ...dataRows] = parsed
+    const guessed = guessMapping(fileHeader)
+    setHeader(fileHeader)
+    setRows(dataRows)
+    setMapping(guessed)
+    detectFormats(guessed, dataRows)
+    if (guessed.weight >= 0) {
+      setDefaultUnit(unitFromHeader(fileHeader[guessed.weight]) || config.weightUnit)
+    }
+    setStep('map')
+  }
+
+  const handleMappingChange = (field: ImportField, column: number) => {
+    if (!mapping) return
+    const nextMapping = { ...mapping, [field]: column }
+    setMapping(nextMapping)
+    if (field === 'date' || field === 'time') {
+      detectFormats(nextMapping, rows)
+    }
+    if (field === 'weight' && column >= 0) {
+      setDefaultUnit(unitFromHeader(header[column]) || defaultUnit)
+    }
+  }
+
+  const handlePreview = () => {
+    if (!mapping) return
+    const missing = IMPORT_FIELDS.filter(({ field, required }) => required && mapping[field] < 0)
+    if (missing.length > 0) {
+      setError(`Please choose a column for ${missing.map(f => f.label).join(', ')}`)
+      return
+    }
+
+    setError('')
+    const result = buildImport(rows, { mapping, dateFormat, timeFormat, defaultUnit }, exercises)
+    setPreview(result)
+    setNewExercises(Object.fromEntries(result.unknownExercises.map(name => {
+      // Weighted sets suggest a strength exercise
+      const weighted = result.records.some(r => r.exerciseName === name && r.sets?.some(set => set.weight))
+      return [name, weighted ? 'strength' : 'cardio']
+    })))
+    setStep('preview')
+  }
+
+  const handleImport = async () => {
+    if (!preview) return
+
+    try {
+      setIsImporting(true)
+      setError('')
+
+      let created = 0
+      for (const [name, choice] of Object.entries(newExercises)) {
+        if (choice === 'skip') continue
+        await db.addExercise({
+          name,
+          type: choice,
+          defaultCount: defaultCountFromSets(choice, preview.records.find(r => r.exerciseName === name)?.sets || []),
+          instruction: '',
+        })
+        created++
+      }
+
+      const skipped = new Set(Object.keys(newExercises).filter(name => newExercises[name] === 'skip'))
+      const records = preview.records.filter(record => !skipped.has(record.exerciseName))
+      await withPersonalRecordsMuted(async () => {
+        for (const record of records) {
+          await db.addRecord(record)
+        }
+      })
+
+      onComplete(`Imported ${records.length} records` +
+        (created > 0 ? ` and created ${created} exercises` : '') +
+        (preview.errors.length > 0 ? `. ${preview.errors.length} rows had errors and were skipped` : ''))
+    } catch (err) {
+      setError('Failed to import records')
+      console.error('Error importing records:', err)
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600/80 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-lg max-h-full overflow-y-auto">
+        <h2 className="text-xl font-semibold mb-4">Import Records from CSV</h2>
+
+        {step === 'file' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Choose a CSV file with one row per set. The first row must name the columns.
+            </p>
+            <button
+              type="button"
+              onClick={() => fileInput.current?.click()}
+              className="px-4 py-2 text-sm font-medium text-blue-700 dark:text-blue-300 bg-blue-100 dark:bg-blue-900 rounded-md hover:bg-blue-200 dark:hover:bg-blue-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              Choose File
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="text/csv,.csv"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </div>
+        )}
+
+        {step === 'map' && mapping && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {rows.length} rows found. Match each field to a column.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    {label}{required && ' *'}
+                  </label>
+                  <select
+                    value={mapping[field]}
+                    onChange={(e) => handleMappingChange(field, parseInt(e.target.value))}
+                    className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value={-1}>Not in file</option>
+                    {header.map((name, index) => (
+                      <option key={index} value={index}>{name || `Column ${index + 1}`}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Date Format</label>
+                <select
+                  value={dateFormat}
+                  onChange={(e) => setDateFormat(e.target.value)}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Time Format</label>
+                <select
+                  value={timeFormat || ''}
+                  onChange={(e) => setTimeFormat(e.target.value || null)}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">None</option>
+                  {TIME_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Default Unit</label>
+                <select
+                  value={defaultUnit}
+                  onChange={(e) => setDefaultUnit(e.target.value as 'kg' | 'lbs')}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="lbs">lbs</option>
+                  <option value="kg">kg</option>
+                </select>
+              </div>
+            </div>
+            {mapping.date >= 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                First date: {columnValues(mapping.date)[0] || '-'}. Rows without a unit use the default unit.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && preview && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Dry run: {preview.records.length} records with {preview.setCount} sets would be imported.
+              Nothing has been saved yet.
+            </p>
+
+            {preview.errors.length > 0 && (
+              <div className="p-3 bg-red-50 dark:bg-red-950 rounded-md text-sm text-red-700 dark:text-red-300">
+                <p className="font-medium mb-1">{preview.errors.length} rows will be skipped:</p>
+                <ul className="list-disc pl-5">
+                  {preview.errors.slice(0, PREVIEW_ROWS).map(e => (
+                    <li key={e.row}>Row {e.row}: {e.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {preview.unknownExercises.length > 0 && (
+              <div>
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">New exercises</p>
+                <div className="space-y-2">
+                  {preview.unknownExercises.map(name => (
+                    <div key={name} className="flex items-center justify-between gap-2">
+                      <span className="text-sm truncate">{name}</span>
+                      <select
+                        value={newExercises[name]}
+                        onChange={(e) => setNewExercises({ ...newExercises, [name]: e.target.value as NewExerciseChoice })}
+                        className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="strength">Create as strength</option>
+                        <option value="cardio">Create as cardio</option>
+                        <option value="core">Create as core</option>
+                        <option value="skip">Skip its records</option>
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="border border-gray-200 dark:border-gray-700 rounded-md divide-y divide-gray-200 dark:divide-gray-700">
+              {preview.records.slice(0, PREVIEW_ROWS).map((record, index) => (
+                <div key={index} className="px-3 py-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="font-medium">{record.exerciseName}</span>
+                    <span className="text-gray-500 dark:text-gray-400">{record.date} {record.time.slice(0, 5)}</span>
+                  </div>
+                  <p className="text-gray-600 dark:text-gray-400">{formatSets(record.sets || [])}</p>
+                </div>
+              ))}
+              {preview.records.length > PREVIEW_ROWS && (
+                <p className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">
+                  and {preview.records.length - PREVIEW_ROWS} more
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          {step !== 'file' && (
+            <button
+              type="button"
+              onClick={() => setStep(step === 'preview' ? 'map' : 'file')}
+              disabled={isImporting}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              Back
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isImporting}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          {step === 'map' && (
+            <button
+              type="button"
+              onClick={handlePreview}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+            >
+              Preview
+            </button>
+          )}
+          {step === 'preview' && (
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isImporting || preview?.records.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isImporting ? 'Importing...' : 'Import'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
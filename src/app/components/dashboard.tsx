@@ -1,20 +1,76 @@
 'use client'
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 
 import ConfigEdit from './config_edit'
 import ExerciseList from './exercise_list'
 import RecordList from './record_list'
 import WeekTracker from './week_tracker'
+import TrainingCalendar from './training_calendar'
 import PlanList from './plan_list'
-
-type TabType = 'dashboard' | 'exercises' | 'records' | 'plans' | 'settings';
+import ProgramList from './program_list'
+import TodayPlan from './today_plan'
+import ProgramToday from './program_today'
+import AdherenceSummary from './adherence_summary'
+import MuscleVolume from './muscle_volume'
+import WorkoutSession from './workout_session'
+import PRToast from './pr_toast'
+import RestTimer from './rest_timer'
+import UpdatePrompt from './update_prompt'
+import { Plan, ProgramWeek } from '../lib/indexdb_handler'
+import { useExerciseDB } from '../lib/db_store'
+import { WorkoutSession as Session, createSession, loadSession, saveSession, clearSession } from '../lib/session_store'
+import { loadPlanSuggestions } from '../lib/progression_utils'
+
+type TabType = 'dashboard' | 'calendar' | 'volume' | 'exercises' | 'records' | 'plans' | 'settings';
 
 export default function Dashboard() {
   const [activeTab, setActiveTab] = useState<TabType>('dashboard')
   const [isAnimating, setIsAnimating] = useState(false)
+  const [session, setSession] = useState<Session | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [recordsDate, setRecordsDate] = useState<string | undefined>()
+  const db = useExerciseDB()
+
+  // Resume a workout that was in progress before a reload
+  useEffect(() => {
+    setSession(loadSession())
+  }, [])
+
+  const handleSessionChange = (updated: Session) => {
+    saveSession(updated)
+    setSession(updated)
+  }
+
+  const handleStartPlan = async (plan: Plan, week?: ProgramWeek) => {
+    if (session && !session.finishedAt &&
+      !window.confirm(`A "${session.planName}" workout is still in progress. Start a new one?`)) {
+      return
+    }
+
+    try {
+      const exercises = await db.getAllExercises()
+      handleSessionChange(createSession(plan, exercises, await loadPlanSuggestions(db, plan), week))
+    } catch (error) {
+      console.error('Error starting workout:', error)
+    }
+  }
+
+  // Show the records of a day picked on the calendar or week tracker
+  const handleSelectDate = (date: string) => {
+    setRecordsDate(date)
+    setActiveTab('records')
+  }
+
+  const handleSessionClose = () => {
+    clearSession()
+    setSession(null)
+    setRefreshKey(key => key + 1) // Reload lists with the new records
+  }
 
   const tabs = [
     { id: 'dashboard', name: "Dashboard" },
+    { id: 'calendar', name: 'Calendar' },
+    { id: 'volume', name: 'Volume' },
     { id: 'exercises', name: 'Exercises' },
     { id: 'records', name: 'Records' },
     { id: 'plans', name: 'Plans' },
@@ -51,7 +107,7 @@ export default function Dashboard() {
       </div> */}
 
       {/* Tabs */}
-      <div className="border-b border-gray-200 mb-6">
+      <div className="border-b border-gray-200 dark:border-gray-700 mb-6">
         <nav className="-mb-px flex justify-center" aria-label="Tabs">
         <div className="relative flex space-x-8">
   {visibleTabs.map((tab, index) => {
@@ -65,8 +121,8 @@ export default function Dashboard() {
           whitespace-nowrap py-2 px-0 border-b-2 font-medium text-sm
           transition-all duration-300 ease-out
           ${isActive 
-            ? 'border-blue-500 text-blue-600' 
-            : 'border-transparent text-gray-400 hover:text-gray-700 hover:border-gray-300'}
+            ? 'border-blue-500 text-blue-600 dark:text-blue-400' 
+            : 'border-transparent text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:border-gray-300 dark:hover:border-gray-600'}
           ${isAnimating ? 'pointer-events-none' : ''}
         `}
         style={{
@@ -87,27 +143,54 @@ export default function Dashboard() {
       {/* Content */}
       <div className={`transition-opacity duration-300 ${isAnimating ? 'opacity-50' : 'opacity-100'}`}>
         {/* Week Tracker */}
-        {activeTab === 'dashboard' && <WeekTracker />}
+        {activeTab === 'dashboard' && <WeekTracker key={refreshKey} onSelectDate={handleSelectDate} />}
+
+        {activeTab === 'dashboard' && <ProgramToday key={refreshKey} onStartPlan={handleStartPlan} />}
+
+        {activeTab === 'dashboard' && <TodayPlan key={refreshKey} onStartPlan={handleStartPlan} />}
+
+        {activeTab === 'dashboard' && <AdherenceSummary key={refreshKey} />}
 
         {/* Tab Panels */}
         {activeTab === 'dashboard' && (
           <div>
-            <RecordList dash={true} />
+            <RecordList key={refreshKey} dash={true} />
           </div>
         )}
 
+        {activeTab === 'calendar' && <TrainingCalendar key={refreshKey} onSelectDate={handleSelectDate} />}
+
+        {activeTab === 'volume' && <MuscleVolume key={refreshKey} />}
+
         {activeTab === 'exercises' && <ExerciseList />}
 
-        {activeTab === 'records' && <RecordList />}
+        {activeTab === 'records' && <RecordList key={refreshKey} date={recordsDate} />}
 
-        {activeTab === 'plans' && <PlanList />}
+        {activeTab === 'plans' && (
+          <>
+            <ProgramList />
+            <PlanList onStartPlan={handleStartPlan} />
+          </>
+        )}
 
         {activeTab === 'settings' && (
-          <div className="bg-white rounded-lg shadow-lg p-6">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
             <ConfigEdit />
           </div>
         )}
       </div>
+
+      {session && (
+        <WorkoutSession
+          session={session}
+          onChange={handleSessionChange}
+          onClose={handleSessionClose}
+        />
+      )}
+
+      <PRToast />
+      <RestTimer />
+      <UpdatePrompt />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,225 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import { Exercise, ExerciseRecord, ExerciseStats } from '../lib/indexdb_handler'
+import { useExerciseDB } from '../lib/db_store'
+import { useAppConfig } from '../lib/config_store'
+import { renderTypeBadge } from '../lib/exercise_utils'
+import { formatSets, formatWeight, getRecordSets, workingSets } from '../lib/record_utils'
+import { CHART_RANGES, ChartRange, ChartMetric, ChartPoint, rangeStart, buildSeries } from '../lib/chart_utils'
+import { E1RM_FORMULAS } from '../lib/e1rm_utils'
+import { PersonalRecord, formatPRLabel, formatPRValue } from '../lib/pr_utils'
+import LineChart from './line_chart'
+import OneRepMaxCalculator from './one_rep_max_calculator'
+import RecordForm from './record_form'
+
+interface ExerciseDetailProps {
+  exercise: Exercise
+  onClose: () => void
+}
+
+export default function ExerciseDetail({ exercise, onClose }: ExerciseDetailProps) {
+  const db = useExerciseDB()
+  const { config } = useAppConfig()
+  const [records, setRecords] = useState<ExerciseRecord[]>([])
+  const [personalRecords, setPersonalRecords] = useState<PersonalRecord[]>([])
+  const [stats, setStats] = useState<ExerciseStats['stats']>(null)
+  const [range, setRange] = useState<ChartRange>('3m')
+  const [selected, setSelected] = useState<ExerciseRecord | null>(null)
+  const [editingRecord, setEditingRecord] = useState<ExerciseRecord | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  const loadRecords = useCallback(async () => {
+    try {
+      setLoading(true)
+      setRecords(await db.getRecordsByExercise(exercise.name))
+      setPersonalRecords(await db.getPersonalRecords(exercise.name))
+      setStats((await db.getExerciseStats(exercise.name, { formula: config.e1rmFormula, unit: config.weightUnit })).stats)
+    } catch (err) {
+      setError('Failed to load records')
+      console.error('Error loading records:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [db, exercise.name, config.e1rmFormula, config.weightUnit])
+
+  useEffect(() => {
+    loadRecords()
+  }, [loadRecords])
+
+  const start = rangeStart(range)
+  const inRange = start ? records.filter(record => record.date >= start) : records
+  const unit = config.weightUnit
+  const formulaLabel = E1RM_FORMULAS.find(f => f.formula === config.e1rmFormula)?.label
+  const countLabel = exercise.type === 'strength' ? 'Reps' : 'Seconds'
+  const round = (value: number) => Math.round(value * 10) / 10
+
+  const charts: { metric: ChartMetric, title: string, color: string, formatValue: (value: number) => string }[] = [
+    { metric: 'count', title: `Total ${countLabel}`, color: '#3b82f6', formatValue: value => `${Math.round(value)}` },
+    { metric: 'weight', title: 'Top Weight', color: '#10b981', formatValue: value => `${round(value)}${unit}` },
+    { metric: 'volume', title: 'Volume (sets × reps × weight)', color: '#8b5cf6', formatValue: value => `${Math.round(value)}${unit}` },
+    { metric: 'e1rm', title: `Est. 1RM (${formulaLabel})`, color: '#ef4444', formatValue: value => `${round(value)}${unit}` },
+    { metric: 'rpe', title: 'RPE', color: '#f59e0b', formatValue: value => `${round(value)}` },
+  ]
+
+  // Cardio and core exercises are rarely weighted, so only chart weight when something was lifted
+  const hasWeights = records.some(record => getRecordSets(record).some(set => set.weight))
+  const weightMetrics: ChartMetric[] = ['weight', 'volume', 'e1rm']
+  const visibleCharts = charts.filter(chart => hasWeights || !weightMetrics.includes(chart.metric))
+
+  const handleSelect = (point: ChartPoint) => {
+    setSelected(point.record)
+  }
+
+  const handleSelectPR = (pr: PersonalRecord) => {
+    setSelected(records.find(record => record.id === pr.recordId) || null)
+  }
+
+  const handleRecordChange = async () => {
+    setEditingRecord(null)
+    setSelected(null)
+    await loadRecords()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600/80 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-2xl max-h-full overflow-y-auto">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-xl font-semibold">{exercise.name}</h2>
+            <div className="mt-1">{renderTypeBadge(exercise.type)}</div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            aria-label="Close"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="flex gap-1 mb-4">
+          {CHART_RANGES.map(option => (
+            <button
+              key={option.range}
+              onClick={() => setRange(option.range)}
+              className={`flex-1 py-2 text-xs font-medium rounded-md border transition-colors ${
+                range === option.range
+                  ? 'border-blue-500 bg-blue-500 text-white'
+                  : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <p className="text-center py-8 text-gray-500 dark:text-gray-400">Loading...</p>
+        ) : error ? (
+          <div className="bg-red-100 dark:bg-red-900 border-l-4 border-red-500 text-red-700 dark:text-red-300 p-4 rounded">
+            <p>{error}</p>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              {inRange.length} workouts, {inRange.reduce((sum, r) => sum + workingSets(getRecordSets(r)).length, 0)} working sets in this range.
+              Tap a point to see its record.
+            </p>
+
+            {(stats?.maxWeight || stats?.bestE1RM) && (
+              <p className="text-sm text-gray-700 dark:text-gray-300 mb-4">
+                {stats.maxWeight && (
+                  <>Heaviest set: <span className="font-medium">{formatWeight(stats.maxWeight.value, stats.maxWeight.unit, unit)}</span>. </>
+                )}
+                {stats.bestE1RM && (
+                  <>
+                    Best est. 1RM: <span className="font-medium">{formatWeight(stats.bestE1RM.value, stats.bestE1RM.unit, unit)}</span>
+                    <span className="text-gray-500 dark:text-gray-400"> ({formulaLabel})</span>
+                  </>
+                )}
+              </p>
+            )}
+
+            {selected && (
+              <div className="mb-4 p-3 bg-blue-50 dark:bg-blue-950 rounded-md flex justify-between items-center">
+                <div>
+                  <p className="text-sm font-medium">{selected.date} {selected.time.slice(0, 5)}</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">{formatSets(getRecordSets(selected), unit)}</p>
+                  {selected.note && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{selected.note}</p>}
+                </div>
+                <button
+                  onClick={() => setEditingRecord(selected)}
+                  className="px-3 py-1 text-sm font-medium text-blue-700 dark:text-blue-300 bg-blue-100 dark:bg-blue-900 rounded-md hover:bg-blue-200 dark:hover:bg-blue-800"
+                >
+                  Edit
+                </button>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {visibleCharts.map(chart => (
+                <LineChart
+                  key={chart.metric}
+                  title={chart.title}
+                  points={buildSeries(inRange, chart.metric, unit, config.e1rmFormula)}
+                  color={chart.color}
+                  formatValue={chart.formatValue}
+                  selectedId={selected?.id}
+                  onSelect={handleSelect}
+                />
+              ))}
+            </div>
+
+            {exercise.type === 'strength' && (
+              <div className="mt-6">
+                <OneRepMaxCalculator
+                  bestE1RM={stats?.bestE1RM?.value}
+                  unit={unit}
+                  formula={config.e1rmFormula}
+                />
+              </div>
+            )}
+
+            <div className="mt-6">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">Personal Records</h3>
+              {personalRecords.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  No PRs yet. Your first workout sets the baseline; beat it to set a PR.
+                </p>
+              ) : (
+                <ol className="border-l-2 border-yellow-300 dark:border-yellow-700 ml-2 space-y-3">
+                  {[...personalRecords].reverse().map((pr, index) => (
+                    <li
+                      key={index}
+                      onClick={() => handleSelectPR(pr)}
+                      className="pl-4 relative cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 rounded-r-md"
+                    >
+                      <span className="absolute -left-[7px] top-1.5 h-3 w-3 rounded-full bg-yellow-400" />
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{pr.date}</p>
+                      <p className="text-sm">
+                        <span className="font-medium">{formatPRLabel(pr, unit)}</span>: {formatPRValue(pr, unit)}
+                        <span className="text-gray-500 dark:text-gray-400"> (was {formatPRValue({ ...pr, value: pr.previous }, unit)})</span>
+                      </p>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {editingRecord && (
+        <RecordForm
+          record={editingRecord}
+          onComplete={handleRecordChange}
+          onCancel={() => setEditingRecord(null)}
+          onDelete={handleRecordChange}
+        />
+      )}
+    </div>
+  )
+}
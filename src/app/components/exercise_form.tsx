@@ -1,8 +1,10 @@
 'use client'
 
 import { useState } from 'react'
-import { Exercise, ExerciseDB } from '../lib/indexdb_handler'
+import { Exercise } from '../lib/indexdb_handler'
+import { useExerciseDB } from '../lib/db_store'
 import { renderTypeBadge } from '../lib/exercise_utils'
+import { MuscleGroup, Equipment, MUSCLE_GROUPS, EQUIPMENT } from '../lib/muscle_utils'
 
 interface ExerciseFormProps {
   exercise?: Exercise
@@ -12,15 +14,34 @@ interface ExerciseFormProps {
 }
 
 export default function ExerciseForm({ exercise, onComplete, onCancel, onDelete }: ExerciseFormProps) {
+  const db = useExerciseDB()
   const [name, setName] = useState(exercise?.name || '')
   const [type, setType] = useState<'strength' | 'cardio' | 'core'>(exercise?.type || 'strength')
   const [defaultCount, setDefaultCount] = useState(exercise?.defaultCount || '')
   const [instruction, setInstruction] = useState(exercise?.instruction || '')
+  const [restSeconds, setRestSeconds] = useState(exercise?.restSeconds?.toString() ?? '')
+  const [primaryMuscles, setPrimaryMuscles] = useState<MuscleGroup[]>(exercise?.primaryMuscles || [])
+  const [secondaryMuscles, setSecondaryMuscles] = useState<MuscleGroup[]>(exercise?.secondaryMuscles || [])
+  const [equipment, setEquipment] = useState<Equipment | ''>(exercise?.equipment || '')
+  const [bodyweight, setBodyweight] = useState(exercise?.bodyweight || false)
+  const [unilateral, setUnilateral] = useState(exercise?.unilateral || false)
   const [error, setError] = useState('')
   const [isDeleting, setIsDeleting] = useState(false)
 
   const typeOptions: Array<'strength' | 'cardio' | 'core'> = ['strength', 'cardio', 'core']
 
+  // Each tap moves a muscle group along: not worked, primary, secondary
+  const cycleMuscle = (group: MuscleGroup) => {
+    if (primaryMuscles.includes(group)) {
+      setPrimaryMuscles(primaryMuscles.filter(m => m !== group))
+      setSecondaryMuscles([...secondaryMuscles, group])
+    } else if (secondaryMuscles.includes(group)) {
+      setSecondaryMuscles(secondaryMuscles.filter(m => m !== group))
+    } else {
+      setPrimaryMuscles([...primaryMuscles, group])
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
@@ -30,19 +51,31 @@ export default function ExerciseForm({ exercise, onComplete, onCancel, onDelete
       return
     }
 
+    const rest = restSeconds === '' ? undefined : parseInt(restSeconds)
+    if (rest !== undefined && (isNaN(rest) || rest < 0)) {
+      setError('Rest must be a number of seconds')
+      return
+    }
+
     try {
       const exerciseData: Exercise = {
         name,
         type,
         defaultCount,
-        instruction
+        instruction,
+        ...(type === 'strength' && rest !== undefined && { restSeconds: rest }),
+        ...(primaryMuscles.length > 0 && { primaryMuscles }),
+        ...(secondaryMuscles.length > 0 && { secondaryMuscles }),
+        ...(equipment && { equipment }),
+        ...(bodyweight && { bodyweight }),
+        ...(unilateral && { unilateral }),
       }
 
       let success: boolean;
       if (exercise) {
-        success = await ExerciseDB.updateExercise(exercise.name, exerciseData);
+        success = await db.updateExercise(exercise.name, exerciseData);
       } else {
-        success = await ExerciseDB.addExercise(exerciseData);
+        success = await db.addExercise(exerciseData);
       }
 
       if (!success) {
@@ -52,7 +85,12 @@ export default function ExerciseForm({ exercise, onComplete, onCancel, onDelete
 
       onComplete();
     } catch (err) {
-      setError('Failed to save exercise');
+      // Exercises are keyed by name
+      if (err instanceof Error && err.name === 'ConstraintError') {
+        setError('An exercise with this name already exists');
+      } else {
+        setError('Failed to save exercise');
+      }
       console.error('Error saving exercise:', err);
     }
   }
@@ -62,7 +100,7 @@ export default function ExerciseForm({ exercise, onComplete, onCancel, onDelete
 
     try {
       setIsDeleting(true)
-      await ExerciseDB.deleteExercise(exercise.name)
+      await db.deleteExercise(exercise.name)
       onDelete?.()
     } catch (err) {
       setError('Failed to delete exercise')
@@ -80,7 +118,7 @@ export default function ExerciseForm({ exercise, onComplete, onCancel, onDelete
 
   return (
     <div className="fixed inset-0 bg-gray-600/80 backdrop-blur-sm flex items-center justify-center p-4">
-      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md max-h-full overflow-y-auto">
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-xl font-semibold">
             {exercise ? 'Edit Exercise' : 'Add New Exercise'}
@@ -90,8 +128,8 @@ export default function ExerciseForm({ exercise, onComplete, onCancel, onDelete
               type="button"
               onClick={handleDeleteClick}
               disabled={isDeleting}
-              className="px-3 py-1 text-sm font-medium text-red-700 bg-red-100 rounded-md 
-                hover:bg-red-200 focus:outline-none focus:ring-2 focus:ring-red-500 
+              className="px-3 py-1 text-sm font-medium text-red-700 dark:text-red-300 bg-red-100 dark:bg-red-900 rounded-md 
+                hover:bg-red-200 dark:hover:bg-red-800 focus:outline-none focus:ring-2 focus:ring-red-500 
                 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {isDeleting ? 'Deleting...' : 'Delete'}
@@ -101,20 +139,20 @@ export default function ExerciseForm({ exercise, onComplete, onCancel, onDelete
 
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
               Exercise Name
             </label>
             <input
               type="text"
               value={name}
               onChange={(e) => setName(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               placeholder="e.g., Push-ups"
             />
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               Type
             </label>
             <div className="flex gap-2">
@@ -125,8 +163,8 @@ export default function ExerciseForm({ exercise, onComplete, onCancel, onDelete
                   onClick={() => setType(option)}
                   className={`flex-1 p-2 rounded-md border transition-colors ${
                     type === option
-                      ? 'border-blue-500 bg-blue-50'
-                      : 'border-gray-300 hover:bg-gray-50'
+                      ? 'border-blue-500 bg-blue-50 dark:bg-blue-950'
+                      : 'border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
                   }`}
                 >
                   {renderTypeBadge(option)}
@@ -136,45 +174,115 @@ export default function ExerciseForm({ exercise, onComplete, onCancel, onDelete
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
               Default Count
             </label>
             <input
               type="text"
               value={defaultCount}
               onChange={(e) => setDefaultCount(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               placeholder={type === 'strength' ? 'e.g., 3s12r' : 'e.g., 60'}
             />
-            <p className="mt-1 text-sm text-gray-500">
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
               {type === 'strength' ? 'Format: [sets]s[reps]r (e.g., 3s12r)' : 
                type === 'cardio' ? 'Time in seconds' : 
                'Duration in seconds'}
             </p>
           </div>
 
+          {type === 'strength' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Rest Between Sets (optional)
+              </label>
+              <input
+                type="number"
+                value={restSeconds}
+                onChange={(e) => setRestSeconds(e.target.value)}
+                min="0"
+                step="15"
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Use the default from settings"
+              />
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Seconds; 0 turns the rest timer off for this exercise</p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Muscles (optional)
+            </label>
+            <div className="flex flex-wrap gap-1">
+              {MUSCLE_GROUPS.map(({ group, label }) => (
+                <button
+                  key={group}
+                  type="button"
+                  onClick={() => cycleMuscle(group)}
+                  className={`px-2 py-1 text-xs font-medium rounded-md border transition-colors ${
+                    primaryMuscles.includes(group)
+                      ? 'border-blue-500 bg-blue-500 text-white'
+                      : secondaryMuscles.includes(group)
+                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-950 text-blue-700 dark:text-blue-300'
+                        : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Tap once for a primary muscle, twice for a secondary one</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Equipment (optional)
+            </label>
+            <select
+              value={equipment}
+              onChange={(e) => setEquipment(e.target.value as Equipment | '')}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Not set</option>
+              {EQUIPMENT.map(({ equipment, label }) => (
+                <option key={equipment} value={equipment}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex gap-4 text-sm text-gray-600 dark:text-gray-400">
+            <label className="flex items-center space-x-1">
+              <input type="checkbox" checked={bodyweight} onChange={(e) => setBodyweight(e.target.checked)} />
+              <span>Lifts body weight</span>
+            </label>
+            <label className="flex items-center space-x-1">
+              <input type="checkbox" checked={unilateral} onChange={(e) => setUnilateral(e.target.checked)} />
+              <span>One side at a time</span>
+            </label>
+          </div>
+
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
               Instructions (optional)
             </label>
             <textarea
               value={instruction}
               onChange={(e) => setInstruction(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               rows={3}
               placeholder="Enter exercise instructions..."
             />
           </div>
 
           {error && (
-            <div className="text-red-600 text-sm">{error}</div>
+            <div className="text-red-600 dark:text-red-400 text-sm">{error}</div>
           )}
 
           <div className="flex justify-end space-x-3 mt-6">
             <button
               type="button"
               onClick={onCancel}
-              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500"
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500"
             >
               Cancel
             </button>
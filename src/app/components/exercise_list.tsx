@@ -1,8 +1,11 @@
-import React, { useState, useEffect } from 'react';
-import { Exercise, ExerciseDB } from '../lib/indexdb_handler';
-import { filterExercises, SearchInput } from '../lib/search_utils';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Exercise } from '../lib/indexdb_handler';
+import { useExerciseDB } from '../lib/db_store';
+import { filterExercises, SearchInput, ExerciseFilters } from '../lib/search_utils';
 import { renderTypeBadge } from '../lib/exercise_utils';
+import { MuscleGroup, Equipment, MUSCLE_GROUPS, EQUIPMENT, formatExerciseDetails } from '../lib/muscle_utils';
 import ExerciseForm from './exercise_form'
+import ExerciseDetail from './exercise_detail'
 
 interface ExerciseListProps {
   onSelectExercise?: (exercise: Exercise) => void;
@@ -10,9 +13,11 @@ interface ExerciseListProps {
 
 const ExerciseList: React.FC<ExerciseListProps> = ({ 
 }) => {
+  const db = useExerciseDB();
   const [exercises, setExercises] = useState<Exercise[]>([]);
   const [filteredExercises, setFilteredExercises] = useState<Exercise[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [filters, setFilters] = useState<ExerciseFilters>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [editingExercise, setEditingExercise] = useState<Exercise | null>(null);
@@ -20,11 +25,12 @@ const ExerciseList: React.FC<ExerciseListProps> = ({
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [, setIsLongPressing] = useState(false);
   const [showForm, setShowForm] = useState(false);
+  const [detailExercise, setDetailExercise] = useState<Exercise | null>(null);
 
-  const loadExercises = async () => {
+  const loadExercises = useCallback(async () => {
     try {
       setLoading(true);
-      const data = await ExerciseDB.getAllExercises();
+      const data = await db.getAllExercises();
       setExercises(data);
       setFilteredExercises(data);
       setLoading(false);
@@ -33,18 +39,18 @@ const ExerciseList: React.FC<ExerciseListProps> = ({
       setLoading(false);
       console.error('Error loading exercises:', err);
     }
-  };
+  }, [db]);
 
   // Load exercises on component mount
   useEffect(() => {
     loadExercises();
-  }, []);
+  }, [loadExercises]);
 
 
-  // Filter exercises when search term changes
+  // Filter exercises when the search term or filters change
   useEffect(() => {
-    setFilteredExercises(filterExercises(exercises, searchTerm));
-  }, [searchTerm, exercises]);
+    setFilteredExercises(filterExercises(exercises, searchTerm, filters));
+  }, [searchTerm, filters, exercises]);
 
   // Handle search input change
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -96,6 +102,12 @@ const ExerciseList: React.FC<ExerciseListProps> = ({
     setPressedExercise(null);
   };
 
+  // A short tap opens the progress charts; a long press has already opened the editor
+  const handleClick = (exercise: Exercise) => {
+    if (showForm) return;
+    setDetailExercise(exercise);
+  };
+
   // Render count based on exercise type
   const renderTypeCount = (exercise: Exercise) => {
     const { type, defaultCount } = exercise;
@@ -107,8 +119,8 @@ const ExerciseList: React.FC<ExerciseListProps> = ({
           const [, sets, reps] = match;
           return (
             <div className="flex flex-col items-end text-sm">
-              <span className="font-medium text-gray-900 select-none">{sets} sets</span>
-              <span className="text-gray-600 select-none">{reps} reps</span>
+              <span className="font-medium text-gray-900 dark:text-gray-100 select-none">{sets} sets</span>
+              <span className="text-gray-600 dark:text-gray-400 select-none">{reps} reps</span>
             </div>
           );
         }
@@ -121,7 +133,7 @@ const ExerciseList: React.FC<ExerciseListProps> = ({
           const remainingSeconds = seconds % 60;
           return (
             <div className="flex flex-col items-end text-sm">
-              <span className="font-medium text-gray-900 select-none">
+              <span className="font-medium text-gray-900 dark:text-gray-100 select-none">
                 {minutes > 0 ? `${minutes} min` : ''} 
                 {remainingSeconds > 0 ? `${remainingSeconds} sec` : minutes === 0 ? '0 sec' : ''}
               </span>
@@ -135,7 +147,7 @@ const ExerciseList: React.FC<ExerciseListProps> = ({
         if (!isNaN(seconds)) {
           return (
             <div className="flex flex-col items-end text-sm">
-              <span className="font-medium text-gray-900 select-none">{seconds} sec</span>
+              <span className="font-medium text-gray-900 dark:text-gray-100 select-none">{seconds} sec</span>
             </div>
           );
         }
@@ -167,7 +179,7 @@ const ExerciseList: React.FC<ExerciseListProps> = ({
   return (
     <div className="w-full max-w-4xl mx-auto p-4">
       <div className="flex items-center justify-between mb-6">
-        <h2 className="text-2xl font-bold text-gray-800">Exercises</h2>
+        <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200">Exercises</h2>
         <button
           onClick={handleAddClick}
           className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
@@ -182,7 +194,31 @@ const ExerciseList: React.FC<ExerciseListProps> = ({
           value={searchTerm}
           onChange={handleSearchChange}
         />
-        <p className="mt-2 text-sm text-gray-500">Long-press an exercise to edit</p>
+        <div className="flex gap-2 mt-2">
+          <select
+            value={filters.muscle || ''}
+            onChange={(e) => setFilters({ ...filters, muscle: (e.target.value || undefined) as MuscleGroup | undefined })}
+            className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Filter by muscle"
+          >
+            <option value="">All muscles</option>
+            {MUSCLE_GROUPS.map(({ group, label }) => (
+              <option key={group} value={group}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={filters.equipment || ''}
+            onChange={(e) => setFilters({ ...filters, equipment: (e.target.value || undefined) as Equipment | undefined })}
+            className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Filter by equipment"
+          >
+            <option value="">All equipment</option>
+            {EQUIPMENT.map(({ equipment, label }) => (
+              <option key={equipment} value={equipment}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">Tap an exercise to see progress, long-press to edit</p>
       </div>
 
       {/* Exercise List */}
@@ -194,30 +230,34 @@ const ExerciseList: React.FC<ExerciseListProps> = ({
           </svg>
         </div>
       ) : error ? (
-        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 rounded">
+        <div className="bg-red-100 dark:bg-red-900 border-l-4 border-red-500 text-red-700 dark:text-red-300 p-4 rounded">
           <p>{error}</p>
         </div>
       ) : filteredExercises.length === 0 ? (
-        <div className="text-center py-8 text-gray-500">
-          {searchTerm ? 'No exercises match your search' : 'No exercises found. Add some exercises to get started!'}
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+          {searchTerm || filters.muscle || filters.equipment ? 'No exercises match your search' : 'No exercises found. Add some exercises to get started!'}
         </div>
       ) : (
         <div className="grid grid-cols-2 gap-4 mt-3">
           {filteredExercises.map((exercise) => (
             <div 
               key={exercise.name}
-              className="rounded-lg shadow p-4 cursor-pointer hover:bg-gray-50 relative"
+              className="rounded-lg shadow p-4 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 relative"
               onMouseDown={() => handleMouseDown(exercise)}
               onMouseUp={handleMouseUp}
               onMouseLeave={handleMouseUp}
               onTouchStart={() => handleMouseDown(exercise)}
               onTouchEnd={handleMouseUp}
+              onClick={() => handleClick(exercise)}
             >
               <div className="flex items-center justify-between">
                 <div style={loadingBarStyle(exercise)}></div>
                 <div>
-                  <h3 className="text-lg font-medium text-gray-900 select-none">{exercise.name}</h3>
-                  <p className="text-sm text-gray-500 mt-1 select-none">{exercise.instruction}</p>
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 select-none">{exercise.name}</h3>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 select-none">{exercise.instruction}</p>
+                  {formatExerciseDetails(exercise) && (
+                    <p className="text-xs text-gray-400 dark:text-gray-500 mt-1 select-none">{formatExerciseDetails(exercise)}</p>
+                  )}
                 </div>
                 <div className="flex flex-col items-end space-y-2">
                   {renderTypeBadge(exercise.type)}
@@ -237,6 +277,13 @@ const ExerciseList: React.FC<ExerciseListProps> = ({
           onDelete={handleExerciseDelete}
         />
       )}
+
+      {detailExercise && (
+        <ExerciseDetail
+          exercise={detailExercise}
+          onClose={() => setDetailExercise(null)}
+        />
+      )}
     </div>
   );
 };
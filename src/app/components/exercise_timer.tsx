@@ -0,0 +1,266 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import {
+  TIMER_MODES, INTERVAL_PRESETS, TimerMode, IntervalProtocol, newClock, elapsedSeconds,
+  startClock, pauseClock, intervalState, intervalDuration, intervalWorkSets,
+} from '../lib/workout_timer'
+import { formatDuration } from '../lib/rest_timer'
+import { unlockAudio, playBeeps } from '../lib/sound_utils'
+
+interface ExerciseTimerProps {
+  defaultSeconds: number // Countdown and work length to start from
+  onFinish: (durations: number[]) => Promise<boolean> // Seconds of each set timed; resolves to whether they were saved
+}
+
+// Phase being timed and whole seconds left in it, for audio cues
+interface Cue {
+  phase: string
+  remaining: number
+}
+
+// Times cardio and core sets. Cues: a short beep for each of the last three
+// seconds of a phase, a long one when a phase starts, three when done.
+export default function ExerciseTimer({ defaultSeconds, onFinish }: ExerciseTimerProps) {
+  const [mode, setMode] = useState<TimerMode>('stopwatch')
+  const [countdown, setCountdown] = useState(defaultSeconds > 0 ? defaultSeconds.toString() : '60')
+  const [protocol, setProtocol] = useState<IntervalProtocol>(INTERVAL_PRESETS[0].protocol)
+  const [clock, setClock] = useState(newClock)
+  const [now, setNow] = useState(Date.now())
+  const lastCue = useRef<Cue | null>(null)
+  const finished = useRef(false)
+
+  const running = clock.startedAt !== null
+  const started = running || clock.accumulated > 0
+  const elapsed = elapsedSeconds(clock, now)
+  const target = parseInt(countdown) || 0
+  const interval = intervalState(protocol, elapsed)
+
+  // The interval only redraws; elapsed time always comes from the clock timestamps
+  useEffect(() => {
+    if (!running) return
+    const tick = () => setNow(Date.now())
+    const timer = setInterval(tick, 100)
+    document.addEventListener('visibilitychange', tick)
+    return () => {
+      clearInterval(timer)
+      document.removeEventListener('visibilitychange', tick)
+    }
+  }, [running])
+
+  const durations = (): number[] => {
+    switch (mode) {
+      case 'stopwatch':
+        return [Math.round(elapsed)]
+      case 'countdown':
+        return [Math.min(target, Math.round(elapsed))]
+      case 'interval':
+        return intervalWorkSets(protocol, elapsed)
+    }
+  }
+
+  // A failed save leaves the timer stopped but unfinished, so it can be saved again
+  const finish = async () => {
+    if (finished.current) return
+    const sets = durations().filter(seconds => seconds > 0)
+    setClock(pauseClock(clock))
+    if (sets.length === 0) return
+    finished.current = true
+    try {
+      if (!(await onFinish(sets))) finished.current = false
+    } catch (error) {
+      finished.current = false
+      console.error('Error saving timed sets:', error)
+    }
+  }
+
+  // Cue and finish checks for the latest render. The tick effect calls them
+  // through a ref so it runs once per tick rather than on every render.
+  const checkTick = useRef(() => {})
+  useEffect(() => {
+    checkTick.current = () => {
+      const done = mode === 'countdown' ? elapsed >= target : mode === 'interval' && interval.phase === 'done'
+      if (done) {
+        playBeeps(3)
+        finish()
+        return
+      }
+
+      const cue: Cue = mode === 'stopwatch'
+        ? { phase: `minute-${Math.floor(elapsed / 60)}`, remaining: Infinity }
+        : mode === 'countdown'
+          ? { phase: 'countdown', remaining: Math.ceil(target - elapsed) }
+          : { phase: `${interval.round}-${interval.phase}`, remaining: Math.ceil(interval.remaining) }
+
+      const previous = lastCue.current
+      if (previous && previous.phase !== cue.phase) {
+        playBeeps(1, { frequency: interval.phase === 'rest' ? 440 : 880, duration: 0.6 })
+      } else if (previous && previous.remaining !== cue.remaining && cue.remaining <= 3) {
+        playBeeps(1, { frequency: 660, duration: 0.15 })
+      }
+      lastCue.current = cue
+    }
+  })
+
+  useEffect(() => {
+    if (running) checkTick.current()
+  }, [now, running])
+
+  const handleStart = () => {
+    unlockAudio()
+    const time = Date.now()
+    setNow(time)
+    setClock(startClock(clock, time))
+  }
+
+  const handleReset = () => {
+    setClock(newClock())
+    lastCue.current = null
+    finished.current = false
+  }
+
+  const updateProtocol = (changes: Partial<IntervalProtocol>) => {
+    setProtocol({ ...protocol, ...changes })
+  }
+
+  const display = mode === 'stopwatch'
+    ? formatDuration(Math.floor(elapsed))
+    : mode === 'countdown'
+      ? formatDuration(Math.max(0, Math.ceil(target - elapsed)))
+      : formatDuration(Math.ceil(interval.remaining))
+
+  const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    <div className="mb-4 p-3 border rounded-md">
+      <div className="flex gap-1 mb-3">
+        {TIMER_MODES.map(option => (
+          <button
+            key={option.mode}
+            type="button"
+            onClick={() => setMode(option.mode)}
+            disabled={started}
+            className={`flex-1 py-1 text-xs font-medium rounded-md border transition-colors disabled:opacity-50 ${
+              mode === option.mode
+                ? 'border-blue-500 bg-blue-500 text-white'
+                : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {!started && mode === 'countdown' && (
+        <div className="mb-3">
+          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Seconds</label>
+          <input
+            type="number"
+            value={countdown}
+            onChange={(e) => setCountdown(e.target.value)}
+            min="1"
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      {!started && mode === 'interval' && (
+        <div className="mb-3 space-y-2">
+          <div className="flex flex-wrap gap-1">
+            {INTERVAL_PRESETS.map(preset => (
+              <button
+                key={preset.name}
+                type="button"
+                onClick={() => setProtocol(preset.protocol)}
+                className="px-2 py-1 text-xs font-medium text-blue-700 dark:text-blue-300 bg-blue-100 dark:bg-blue-900 rounded-md hover:bg-blue-200 dark:hover:bg-blue-800"
+              >
+                {preset.name}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Work (s)</label>
+              <input
+                type="number"
+                value={protocol.work}
+                onChange={(e) => updateProtocol({ work: Math.max(1, parseInt(e.target.value) || 0) })}
+                min="1"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Rest (s)</label>
+              <input
+                type="number"
+                value={protocol.rest}
+                onChange={(e) => updateProtocol({ rest: Math.max(0, parseInt(e.target.value) || 0) })}
+                min="0"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Rounds</label>
+              <input
+                type="number"
+                value={protocol.rounds}
+                onChange={(e) => updateProtocol({ rounds: Math.max(1, parseInt(e.target.value) || 0) })}
+                min="1"
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">Total {formatDuration(intervalDuration(protocol))}</p>
+        </div>
+      )}
+
+      <div className="text-center mb-3">
+        {mode === 'interval' && started && (
+          <p className={`text-sm font-medium ${interval.phase === 'rest' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+            {interval.phase === 'rest' ? 'Rest' : 'Work'} · Round {interval.round} of {protocol.rounds}
+          </p>
+        )}
+        <p className="text-4xl font-semibold tabular-nums">{display}</p>
+      </div>
+
+      <div className="flex gap-2">
+        {running ? (
+          <button
+            type="button"
+            onClick={() => setClock(pauseClock(clock))}
+            className="flex-1 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600"
+          >
+            Pause
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={handleStart}
+            disabled={mode === 'countdown' && target <= 0}
+            className="flex-1 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {started ? 'Resume' : 'Start'}
+          </button>
+        )}
+        {started && (
+          <>
+            <button
+              type="button"
+              onClick={handleReset}
+              className="flex-1 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600"
+            >
+              Reset
+            </button>
+            <button
+              type="button"
+              onClick={finish}
+              className="flex-1 py-2 text-sm font-medium text-green-700 dark:text-green-300 bg-green-100 dark:bg-green-900 rounded-md hover:bg-green-200 dark:hover:bg-green-800"
+            >
+              Finish & Save
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
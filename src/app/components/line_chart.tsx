@@ -0,0 +1,111 @@
+'use client'
+
+import { format } from 'date-fns'
+import { ChartPoint } from '../lib/chart_utils'
+
+interface LineChartProps {
+  title: string
+  points: ChartPoint[]
+  color: string
+  formatValue: (value: number) => string
+  selectedId?: number
+  onSelect: (point: ChartPoint) => void
+}
+
+// Plain SVG so the chart works offline. The viewBox scales to the container width.
+const WIDTH = 320
+const HEIGHT = 140
+const PADDING = { top: 10, right: 12, bottom: 22, left: 40 }
+
+export default function LineChart({ title, points, color, formatValue, selectedId, onSelect }: LineChartProps) {
+  if (points.length === 0) {
+    return (
+      <div className="rounded-lg shadow p-4">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{title}</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 py-6 text-center">No data in this range</p>
+      </div>
+    )
+  }
+
+  const minTime = points[0].time
+  const maxTime = points[points.length - 1].time
+  const values = points.map(p => p.value)
+  // Pad the value range so flat lines sit in the middle
+  const minValue = Math.min(...values)
+  const maxValue = Math.max(...values)
+  const spread = maxValue - minValue || Math.max(maxValue * 0.1, 1)
+  const low = Math.max(0, minValue - spread * 0.1)
+  const high = maxValue + spread * 0.1
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+  const x = (time: number) => PADDING.left + (maxTime === minTime ? plotWidth / 2 : (time - minTime) / (maxTime - minTime) * plotWidth)
+  const y = (value: number) => PADDING.top + (1 - (value - low) / (high - low)) * plotHeight
+
+  const gridValues = [low, (low + high) / 2, high]
+  const latest = points[points.length - 1]
+
+  return (
+    <div className="rounded-lg shadow p-4">
+      <div className="flex justify-between items-baseline mb-2">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">{title}</h3>
+        <span className="text-sm text-gray-500 dark:text-gray-400">Latest: {formatValue(latest.value)}</span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+        {gridValues.map((value, index) => (
+          <g key={index}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(value)}
+              y2={y(value)}
+              className="stroke-gray-200 dark:stroke-gray-700"
+              strokeWidth={1}
+            />
+            <text x={PADDING.left - 4} y={y(value) + 3} textAnchor="end" fontSize={9} className="fill-gray-500 dark:fill-gray-400">
+              {formatValue(value)}
+            </text>
+          </g>
+        ))}
+
+        <text x={PADDING.left} y={HEIGHT - 6} fontSize={9} className="fill-gray-500 dark:fill-gray-400">
+          {format(minTime, 'MMM d, yyyy')}
+        </text>
+        {maxTime !== minTime && (
+          <text x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end" fontSize={9} className="fill-gray-500 dark:fill-gray-400">
+            {format(maxTime, 'MMM d, yyyy')}
+          </text>
+        )}
+
+        <polyline
+          points={points.map(p => `${x(p.time)},${y(p.value)}`).join(' ')}
+          fill="none"
+          stroke={color}
+          strokeWidth={2}
+          strokeLinejoin="round"
+        />
+
+        {points.map(point => (
+          <g
+            key={`${point.record.id}-${point.time}`}
+            onClick={() => onSelect(point)}
+            className="cursor-pointer"
+          >
+            <title>{`${point.record.date}: ${formatValue(point.value)}`}</title>
+            {/* Larger transparent target for touch */}
+            <circle cx={x(point.time)} cy={y(point.value)} r={10} fill="transparent" />
+            <circle
+              cx={x(point.time)}
+              cy={y(point.value)}
+              r={point.record.id === selectedId ? 5 : 3}
+              fill={point.record.id === selectedId ? color : undefined}
+              className={point.record.id === selectedId ? undefined : 'fill-white dark:fill-gray-800'}
+              stroke={color}
+              strokeWidth={2}
+            />
+          </g>
+        ))}
+      </svg>
+    </div>
+  )
+}
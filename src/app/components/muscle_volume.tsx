@@ -0,0 +1,269 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { format, addDays, addWeeks, subDays, startOfWeek, parseISO } from 'date-fns'
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline'
+import { useExerciseDB } from '../lib/db_store'
+import { useAppConfig } from '../lib/config_store'
+import { MuscleGroup, MUSCLE_GROUPS } from '../lib/muscle_utils'
+import {
+  VolumeReport, VolumeTarget, VolumeTargets, SECONDARY_SET_WEIGHT, DEFAULT_VOLUME_TARGET,
+  loadVolume, effectiveSets, targetFor, scaleTarget, targetStatus, volumeTargetError, rangeDays,
+} from '../lib/volume_utils'
+
+const STATUS_CLASSES = {
+  below: 'text-yellow-600 dark:text-yellow-400',
+  within: 'text-green-600 dark:text-green-400',
+  above: 'text-red-600 dark:text-red-400',
+}
+
+const TREND_CLASSES = {
+  below: 'bg-yellow-400 dark:bg-yellow-600',
+  within: 'bg-green-500 dark:bg-green-600',
+  above: 'bg-red-500 dark:bg-red-600',
+}
+
+const inputClass = 'w-14 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+// Hard sets and tonnage per muscle group over a week or a custom range, against
+// the weekly target ranges, with the trend over recent weeks
+export default function MuscleVolume() {
+  const db = useExerciseDB()
+  const { config, updateConfig } = useAppConfig()
+  const [mode, setMode] = useState<'week' | 'custom'>('week')
+  const [weekStart, setWeekStart] = useState(startOfWeek(new Date(), { weekStartsOn: 1 }))
+  const [customFrom, setCustomFrom] = useState(format(subDays(new Date(), 27), 'yyyy-MM-dd'))
+  const [customTo, setCustomTo] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [report, setReport] = useState<VolumeReport | null>(null)
+  const [draftTargets, setDraftTargets] = useState<VolumeTargets | null>(null)
+  const [error, setError] = useState('')
+
+  const from = mode === 'week' ? format(weekStart, 'yyyy-MM-dd') : customFrom
+  const to = mode === 'week' ? format(addDays(weekStart, 6), 'yyyy-MM-dd') : customTo
+  const validRange = !!from && !!to && from <= to
+
+  useEffect(() => {
+    if (!validRange) return
+    const load = async () => {
+      try {
+        setReport(await loadVolume(db, from, to, config.weightUnit))
+        setError('')
+      } catch (err) {
+        setError('Failed to load training volume')
+        console.error('Error loading training volume:', err)
+      }
+    }
+    load()
+  }, [db, from, to, validRange, config.weightUnit])
+
+  const days = validRange ? rangeDays(from, to) : 7
+  const targets = draftTargets || config.volumeTargets
+
+  const updateDraft = (muscle: MuscleGroup, changes: Partial<VolumeTarget>) => {
+    setDraftTargets({ ...targets, [muscle]: { ...targetFor(targets, muscle), ...changes } })
+  }
+
+  const resetDraft = (muscle: MuscleGroup) => {
+    const rest = { ...targets }
+    delete rest[muscle]
+    setDraftTargets(rest)
+  }
+
+  const handleSaveTargets = () => {
+    if (!draftTargets) return
+    const targetError = Object.values(draftTargets).map(target => target && volumeTargetError(target)).find(Boolean)
+    if (targetError) {
+      setError(targetError)
+      return
+    }
+    updateConfig({ volumeTargets: draftTargets })
+    setDraftTargets(null)
+    setError('')
+  }
+
+  // One scale for every row so bars compare across muscles
+  const scaleMax = Math.max(1, ...MUSCLE_GROUPS.map(({ group }) => Math.max(
+    effectiveSets(report?.range.muscles.get(group)),
+    scaleTarget(targetFor(targets, group), days).max,
+  )))
+  const percent = (sets: number) => `${Math.min(100, sets / scaleMax * 100)}%`
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b border-gray-200 dark:border-gray-700 pb-3 mb-4">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">Muscle volume</h2>
+        <div className="flex text-sm rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden">
+          {(['week', 'custom'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-3 py-1 ${mode === option
+                ? 'bg-blue-600 text-white'
+                : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+            >
+              {option === 'week' ? 'Week' : 'Custom'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'week' ? (
+        <div className="flex items-center justify-between mb-4">
+          <button
+            onClick={() => setWeekStart(addWeeks(weekStart, -1))}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+            aria-label="Previous week"
+          >
+            <ChevronLeftIcon className="h-5 w-5" />
+          </button>
+          <span className="font-medium">
+            {format(weekStart, 'MMM d')} – {format(addDays(weekStart, 6), 'MMM d, yyyy')}
+          </span>
+          <button
+            onClick={() => setWeekStart(addWeeks(weekStart, 1))}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+            aria-label="Next week"
+          >
+            <ChevronRightIcon className="h-5 w-5" />
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-center justify-center space-x-2 mb-4 text-sm">
+          <input
+            type="date"
+            value={customFrom}
+            onChange={(e) => setCustomFrom(e.target.value)}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="From"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={customTo}
+            onChange={(e) => setCustomTo(e.target.value)}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="To"
+          />
+        </div>
+      )}
+
+      {!validRange && (
+        <p className="mb-2 text-sm text-red-600 dark:text-red-400">The range must end on or after its start</p>
+      )}
+      {error && (
+        <p className="mb-2 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <div className="flex items-center justify-between mb-2 text-xs text-gray-500 dark:text-gray-400">
+        <span>
+          Primary + secondary; a secondary set counts {SECONDARY_SET_WEIGHT} toward the target
+          {days !== 7 && ` · targets scaled to ${days} days`}
+        </span>
+        {draftTargets ? (
+          <span className="space-x-3">
+            <button onClick={() => setDraftTargets(null)} className="hover:text-gray-700 dark:hover:text-gray-200">Cancel</button>
+            <button onClick={handleSaveTargets} className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300">Save targets</button>
+          </span>
+        ) : (
+          <button
+            onClick={() => setDraftTargets(config.volumeTargets)}
+            className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+          >
+            Edit targets
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {MUSCLE_GROUPS.map(({ group, label }) => {
+          const volume = report?.range.muscles.get(group)
+          const sets = effectiveSets(volume)
+          const weekly = targetFor(targets, group)
+          const target = scaleTarget(weekly, days)
+          const status = targetStatus(sets, target)
+          const trend = report?.weeks.map(week => ({ weekStart: week.weekStart, sets: effectiveSets(week.muscles.get(group)) })) || []
+          const trendMax = Math.max(weekly.max, ...trend.map(week => week.sets))
+
+          return (
+            <div key={group}>
+              <div className="flex items-baseline justify-between text-sm">
+                <span className="font-medium">{label}</span>
+                <span className={STATUS_CLASSES[status]}>
+                  {sets} / {target.min}–{target.max} sets
+                </span>
+              </div>
+
+              <div className="relative h-3 mt-1 rounded bg-gray-100 dark:bg-gray-700 overflow-hidden">
+                <div
+                  className="absolute inset-y-0 bg-green-100 dark:bg-green-900"
+                  style={{ left: percent(target.min), width: `calc(${percent(target.max)} - ${percent(target.min)})` }}
+                  title={`Target ${target.min}–${target.max} sets`}
+                />
+                <div className="absolute inset-y-0 left-0 flex" style={{ width: percent(sets) }}>
+                  <div className="h-full bg-blue-600" style={{ flexGrow: volume?.primarySets || 0 }} />
+                  <div className="h-full bg-blue-300 dark:bg-blue-800" style={{ flexGrow: (volume?.secondarySets || 0) * SECONDARY_SET_WEIGHT }} />
+                </div>
+              </div>
+
+              <div className="flex items-end justify-between mt-1 text-xs text-gray-500 dark:text-gray-400">
+                <span>
+                  {volume
+                    ? `${volume.primarySets} + ${volume.secondarySets} sets · ${Math.round(volume.primaryTonnage)} + ${Math.round(volume.secondaryTonnage)}${config.weightUnit}`
+                    : 'Not trained'}
+                </span>
+                <div className="flex items-end h-5 gap-px" aria-label={`${label} trend`}>
+                  {trend.map(week => (
+                    <div
+                      key={week.weekStart}
+                      className={`w-1.5 rounded-sm ${week.sets > 0 ? TREND_CLASSES[targetStatus(week.sets, weekly)] : 'bg-gray-200 dark:bg-gray-700'}`}
+                      style={{ height: `${Math.max(10, week.sets / trendMax * 100)}%` }}
+                      title={`Week of ${format(parseISO(week.weekStart), 'MMM d')}: ${week.sets} sets`}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              {draftTargets && (
+                <div className="flex items-center space-x-1 mt-1 text-xs text-gray-600 dark:text-gray-400">
+                  <span>Weekly</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={isNaN(weekly.min) ? '' : weekly.min}
+                    onChange={(e) => updateDraft(group, { min: parseInt(e.target.value) })}
+                    className={inputClass}
+                    aria-label={`${label} fewest sets`}
+                  />
+                  <span>–</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={isNaN(weekly.max) ? '' : weekly.max}
+                    onChange={(e) => updateDraft(group, { max: parseInt(e.target.value) })}
+                    className={inputClass}
+                    aria-label={`${label} most sets`}
+                  />
+                  <span>sets</span>
+                  {draftTargets[group] && (
+                    <button
+                      onClick={() => resetDraft(group)}
+                      className="pl-2 text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+                    >
+                      Use default ({DEFAULT_VOLUME_TARGET.min}–{DEFAULT_VOLUME_TARGET.max})
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {report && report.range.unmapped.length > 0 && (
+        <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+          Not counted, no muscle groups set: {report.range.unmapped.join(', ')}. Add them in Exercises.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  E1RMFormula, E1RM_FORMULAS, MAX_ESTIMATE_REPS, MIN_TABLE_RPE,
+  estimateOneRepMax, suggestWorkingWeight,
+} from '../lib/e1rm_utils'
+
+interface OneRepMaxCalculatorProps {
+  bestE1RM?: number // Starting 1RM, e.g. the exercise's best e1RM
+  unit: 'kg' | 'lbs'
+  formula: E1RMFormula
+}
+
+const RPE_OPTIONS = Array.from({ length: (10 - MIN_TABLE_RPE) * 2 + 1 }, (_, i) => MIN_TABLE_RPE + i / 2)
+const round = (value: number) => Math.round(value * 10) / 10
+
+// Estimate a 1RM from a set, then suggest working weights for a target rep count and RPE
+export default function OneRepMaxCalculator({ bestE1RM, unit: initialUnit, formula }: OneRepMaxCalculatorProps) {
+  const [unit, setUnit] = useState(initialUnit)
+  const [oneRepMax, setOneRepMax] = useState(bestE1RM ? round(bestE1RM).toString() : '')
+  const [setWeight, setSetWeight] = useState('')
+  const [setReps, setSetReps] = useState('')
+  const [setRPE, setSetRPE] = useState('')
+  const [targetReps, setTargetReps] = useState('5')
+  const [targetRPE, setTargetRPE] = useState('8')
+
+  const estimate = estimateOneRepMax(
+    parseFloat(setWeight) || 0,
+    parseInt(setReps) || 0,
+    formula,
+    setRPE ? parseFloat(setRPE) : null,
+  )
+  const max = parseFloat(oneRepMax)
+  const rpe = parseFloat(targetRPE)
+  const suggested = max > 0 ? suggestWorkingWeight(max, parseInt(targetReps) || 0, rpe, unit) : null
+  const formulaLabel = E1RM_FORMULAS.find(f => f.formula === formula)?.label
+
+  return (
+    <div className="rounded-lg shadow p-4 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">1RM Calculator</h3>
+        <select
+          value={unit}
+          onChange={(e) => setUnit(e.target.value as 'kg' | 'lbs')}
+          className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="lbs">lbs</option>
+          <option value="kg">kg</option>
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Estimate from a set ({formulaLabel})
+        </label>
+        <div className="flex gap-2 items-center">
+          <input
+            type="number"
+            value={setWeight}
+            onChange={(e) => setSetWeight(e.target.value)}
+            placeholder="Weight"
+            min="0"
+            step="0.5"
+            className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="number"
+            value={setReps}
+            onChange={(e) => setSetReps(e.target.value)}
+            placeholder="Reps"
+            min="1"
+            max={MAX_ESTIMATE_REPS}
+            className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="number"
+            value={setRPE}
+            onChange={(e) => setSetRPE(e.target.value)}
+            placeholder="RPE"
+            min={MIN_TABLE_RPE}
+            max="10"
+            step="0.5"
+            className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="button"
+            onClick={() => estimate && setOneRepMax(round(estimate).toString())}
+            disabled={!estimate}
+            className="px-3 py-1 text-sm font-medium text-blue-700 dark:text-blue-300 bg-blue-100 dark:bg-blue-900 rounded-md hover:bg-blue-200 dark:hover:bg-blue-800 disabled:opacity-50 whitespace-nowrap"
+          >
+            {estimate ? `Use ${round(estimate)}` : 'Use'}
+          </button>
+        </div>
+        {parseInt(setReps) > MAX_ESTIMATE_REPS && (
+          <p className="mt-1 text-xs text-red-600 dark:text-red-400">Estimates need {MAX_ESTIMATE_REPS} reps or fewer</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">1RM ({unit})</label>
+          <input
+            type="number"
+            value={oneRepMax}
+            onChange={(e) => setOneRepMax(e.target.value)}
+            min="0"
+            step="0.5"
+            className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Target Reps</label>
+          <input
+            type="number"
+            value={targetReps}
+            onChange={(e) => setTargetReps(e.target.value)}
+            min="1"
+            max={MAX_ESTIMATE_REPS}
+            className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Target RPE</label>
+          <select
+            value={targetRPE}
+            onChange={(e) => setTargetRPE(e.target.value)}
+            className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {RPE_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="p-3 bg-blue-50 dark:bg-blue-950 rounded-md text-center">
+        {suggested ? (
+          <p className="text-lg font-semibold text-blue-800 dark:text-blue-200">
+            {targetReps} × {suggested}{unit} @ RPE {targetRPE}
+          </p>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Enter a 1RM and a target of 1–{MAX_ESTIMATE_REPS} reps
+          </p>
+        )}
+      </div>
+
+      {max > 0 && (
+        <div className="grid grid-cols-4 gap-1 text-xs text-center">
+          {Array.from({ length: MAX_ESTIMATE_REPS }, (_, i) => i + 1).map(reps => (
+            <div key={reps} className="py-1 bg-gray-50 dark:bg-gray-900 rounded">
+              <span className="text-gray-500 dark:text-gray-400">{reps} × </span>
+              <span className="font-medium">{suggestWorkingWeight(max, reps, rpe, unit)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,628 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { format, parseISO } from 'date-fns'
+import { ArrowUpIcon, ArrowDownIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { Exercise, Plan, PlanExercise, PostponedSession } from '../lib/indexdb_handler'
+import { useExerciseDB } from '../lib/db_store'
+import { useAppConfig } from '../lib/config_store'
+import { filterExercises, SearchInput } from '../lib/search_utils'
+import { renderTypeBadge, formatDefaultCount } from '../lib/exercise_utils'
+import {
+  ProgressionKind, ProgressionRule, PROGRESSION_KINDS, defaultProgressionRule, progressionRuleError,
+} from '../lib/progression_utils'
+
+interface PlanFormProps {
+  plan?: Plan
+  onComplete: () => void
+  onCancel: () => void
+  onDelete?: () => void
+}
+
+const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+// Number inputs show nothing while the value is being retyped
+const numberValue = (value: number | undefined) => value === undefined || isNaN(value) ? '' : value
+
+const smallInputClass = 'w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export default function PlanForm({ plan, onComplete, onCancel, onDelete }: PlanFormProps) {
+  const db = useExerciseDB()
+  const { config } = useAppConfig()
+  const [name, setName] = useState(plan?.name || '')
+  const [planExercises, setPlanExercises] = useState<PlanExercise[]>(plan?.exercises || [])
+  const [schedule, setSchedule] = useState(plan?.schedule || '0000000')
+  const [useInterval, setUseInterval] = useState(!!plan?.interval)
+  const [repeatEvery, setRepeatEvery] = useState(plan?.interval || { every: 2, from: format(new Date(), 'yyyy-MM-dd') })
+  const [dates, setDates] = useState<string[]>(plan?.dates || [])
+  const [newDate, setNewDate] = useState('')
+  const [skipped, setSkipped] = useState<string[]>(plan?.skipped || [])
+  const [postponed, setPostponed] = useState<PostponedSession[]>(plan?.postponed || [])
+  const [rotation, setRotation] = useState(plan?.rotation || '')
+  const [exercises, setExercises] = useState<Exercise[]>([])
+  const [searchTerm, setSearchTerm] = useState('')
+  const [showPicker, setShowPicker] = useState(false)
+  const [error, setError] = useState('')
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  useEffect(() => {
+    const loadExercises = async () => {
+      try {
+        setExercises(await db.getAllExercises())
+      } catch (err) {
+        console.error('Error loading exercises:', err)
+      }
+    }
+    loadExercises()
+  }, [db])
+
+  // Exercises not already in the plan that match the search
+  const availableExercises = filterExercises(exercises, searchTerm)
+    .filter(exercise => !planExercises.some(e => e.name === exercise.name))
+
+  const findExercise = (exerciseName: string) => exercises.find(e => e.name === exerciseName)
+
+  const handleAddExercise = (exercise: Exercise) => {
+    setPlanExercises([...planExercises, { name: exercise.name, count: -1 }])
+    setSearchTerm('')
+    setShowPicker(false)
+  }
+
+  const handleRemoveExercise = (index: number) => {
+    setPlanExercises(planExercises.filter((_, i) => i !== index))
+  }
+
+  const handleMoveExercise = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= planExercises.length) return
+
+    const reordered = [...planExercises]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    setPlanExercises(reordered)
+  }
+
+  const handleCountChange = (index: number, count: number) => {
+    setPlanExercises(planExercises.map((e, i) => i === index ? { ...e, count } : e))
+  }
+
+  const handleProgressionKindChange = (index: number, kind: ProgressionKind | '') => {
+    setPlanExercises(planExercises.map((e, i) => i === index
+      ? { ...e, progression: kind ? defaultProgressionRule(kind, config.weightUnit) : undefined }
+      : e))
+  }
+
+  const handleProgressionChange = (index: number, changes: Partial<ProgressionRule>) => {
+    setPlanExercises(planExercises.map((e, i) => i === index && e.progression
+      ? { ...e, progression: { ...e.progression, ...changes } }
+      : e))
+  }
+
+  const toggleDay = (index: number) => {
+    const days = schedule.split('')
+    days[index] = days[index] === '1' ? '0' : '1'
+    setSchedule(days.join(''))
+  }
+
+  const handleAddDate = () => {
+    if (!newDate || dates.includes(newDate)) return
+    setDates([...dates, newDate].sort())
+    setNewDate('')
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (!name.trim()) {
+      setError('Please enter a plan name')
+      return
+    }
+
+    if (planExercises.length === 0) {
+      setError('Please add at least one exercise')
+      return
+    }
+
+    if (planExercises.some(e => e.count !== -1 && (isNaN(e.count) || e.count <= 0))) {
+      setError('Counts must be positive numbers')
+      return
+    }
+
+    const ruleError = planExercises
+      .map(e => e.progression && progressionRuleError(e.progression))
+      .find(Boolean)
+    if (ruleError) {
+      setError(ruleError)
+      return
+    }
+
+    if (useInterval && (!Number.isInteger(repeatEvery.every) || repeatEvery.every < 1 || !repeatEvery.from)) {
+      setError('Repeat every must be a whole number of days from a start date')
+      return
+    }
+
+    const scheduleData = {
+      schedule,
+      interval: useInterval ? repeatEvery : undefined,
+      dates: dates.length > 0 ? dates : undefined,
+      skipped: skipped.length > 0 ? skipped : undefined,
+      postponed: postponed.length > 0 ? postponed : undefined,
+      rotation: rotation.trim() || undefined,
+    }
+
+    try {
+      if (plan?.id) {
+        await db.updatePlan(plan.id, {
+          ...plan,
+          name: name.trim(),
+          exercises: planExercises,
+          ...scheduleData,
+          updatedAt: new Date().toISOString(),
+        })
+      } else {
+        await db.addPlan({
+          name: name.trim(),
+          exercises: planExercises,
+          ...scheduleData,
+          createdAt: new Date().toISOString(),
+        })
+      }
+
+      onComplete()
+    } catch (err) {
+      // The plan store has a unique index on name
+      if (err instanceof Error && err.name === 'ConstraintError') {
+        setError('A plan with this name already exists')
+      } else {
+        setError('Failed to save plan')
+      }
+      console.error('Error saving plan:', err)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!plan?.id) return
+
+    try {
+      setIsDeleting(true)
+      await db.deletePlan(plan.id)
+      onDelete?.()
+    } catch (err) {
+      setError('Failed to delete plan')
+      console.error('Error deleting plan:', err)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const handleDeleteClick = () => {
+    if (window.confirm('Are you sure you want to delete this plan? This cannot be undone.')) {
+      handleDelete()
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600/80 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">
+            {plan ? 'Edit Plan' : 'Add New Plan'}
+          </h2>
+          {plan && (
+            <button
+              type="button"
+              onClick={handleDeleteClick}
+              disabled={isDeleting}
+              className="px-3 py-1 text-sm font-medium text-red-700 dark:text-red-300 bg-red-100 dark:bg-red-900 rounded-md
+                hover:bg-red-200 dark:hover:bg-red-800 focus:outline-none focus:ring-2 focus:ring-red-500
+                disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isDeleting ? 'Deleting...' : 'Delete'}
+            </button>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Plan Name
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="e.g., Upper Body"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Schedule
+            </label>
+            <div className="flex gap-4 mb-2 text-sm text-gray-600 dark:text-gray-400">
+              <label className="flex items-center space-x-1">
+                <input type="radio" checked={!useInterval} onChange={() => setUseInterval(false)} />
+                <span>Weekdays</span>
+              </label>
+              <label className="flex items-center space-x-1">
+                <input type="radio" checked={useInterval} onChange={() => setUseInterval(true)} />
+                <span>Every N days</span>
+              </label>
+            </div>
+            {useInterval ? (
+              <div className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+                <span>Every</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={numberValue(repeatEvery.every)}
+                  onChange={(e) => setRepeatEvery({ ...repeatEvery, every: parseInt(e.target.value) })}
+                  className={smallInputClass}
+                  aria-label="Days between sessions"
+                />
+                <span>days from</span>
+                <input
+                  type="date"
+                  value={repeatEvery.from}
+                  onChange={(e) => setRepeatEvery({ ...repeatEvery, from: e.target.value })}
+                  className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label="First session"
+                />
+              </div>
+            ) : (
+              <div className="flex gap-1">
+                {DAYS.map((day, index) => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleDay(index)}
+                    className={`flex-1 py-2 text-xs font-medium rounded-md border transition-colors ${
+                      schedule[index] === '1'
+                        ? 'border-blue-500 bg-blue-500 text-white'
+                        : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {day}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="mt-3 flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+              <span>Extra dates</span>
+              <input
+                type="date"
+                value={newDate}
+                onChange={(e) => setNewDate(e.target.value)}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="One-off session date"
+              />
+              <button
+                type="button"
+                onClick={handleAddDate}
+                disabled={!newDate}
+                className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 disabled:opacity-50"
+              >
+                + Add
+              </button>
+            </div>
+            {dates.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-1">
+                {dates.map(date => (
+                  <span key={date} className="flex items-center px-2 py-1 text-xs rounded-md bg-gray-100 dark:bg-gray-700">
+                    {format(parseISO(date), 'EEE, MMM d')}
+                    <button
+                      type="button"
+                      onClick={() => setDates(dates.filter(d => d !== date))}
+                      className="ml-1 text-red-500 hover:text-red-700 dark:hover:text-red-300"
+                      aria-label="Remove date"
+                    >
+                      <XMarkIcon className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {(skipped.length > 0 || postponed.length > 0) && (
+              <div className="mt-2 flex flex-wrap gap-1">
+                {skipped.map(date => (
+                  <span key={date} className="flex items-center px-2 py-1 text-xs rounded-md bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
+                    Skipped {format(parseISO(date), 'MMM d')}
+                    <button
+                      type="button"
+                      onClick={() => setSkipped(skipped.filter(d => d !== date))}
+                      className="ml-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-200"
+                      aria-label="Undo skip"
+                    >
+                      <XMarkIcon className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+                {postponed.map(p => (
+                  <span key={p.from} className="flex items-center px-2 py-1 text-xs rounded-md bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
+                    Moved {format(parseISO(p.from), 'MMM d')} → {format(parseISO(p.to), 'MMM d')}
+                    <button
+                      type="button"
+                      onClick={() => setPostponed(postponed.filter(other => other !== p))}
+                      className="ml-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-200"
+                      aria-label="Undo postpone"
+                    >
+                      <XMarkIcon className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <label className="mt-3 flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+              <span>Rotation</span>
+              <input
+                type="text"
+                value={rotation}
+                onChange={(e) => setRotation(e.target.value)}
+                className="w-24 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="e.g. AB"
+              />
+            </label>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Plans with the same rotation take turns on their days, moving on once a session is done.
+            </p>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Exercises
+              </label>
+              {!showPicker && (
+                <button
+                  type="button"
+                  onClick={() => setShowPicker(true)}
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+                >
+                  + Add Exercise
+                </button>
+              )}
+            </div>
+
+            {showPicker && (
+              <div className="mb-3 p-2 border border-gray-200 dark:border-gray-700 rounded-md">
+                <SearchInput
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  placeholder="Search exercises..."
+                />
+                <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto p-2 mt-2">
+                  {availableExercises.map((exercise) => (
+                    <div
+                      key={exercise.name}
+                      onClick={() => handleAddExercise(exercise)}
+                      className="rounded-lg shadow p-3 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                      <div className="flex items-center justify-between">
+                        <p className="font-medium text-sm">{exercise.name}</p>
+                        {renderTypeBadge(exercise.type)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-end">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setShowPicker(false)
+                      setSearchTerm('')
+                    }}
+                    className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                  >
+                    Done
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {planExercises.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No exercises added yet</p>
+            ) : (
+              <div className="space-y-2">
+                {planExercises.map((planExercise, index) => {
+                  const exercise = findExercise(planExercise.name)
+                  const useDefault = planExercise.count === -1
+                  return (
+                    <div key={planExercise.name} className="p-3 border rounded-md">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                          <span className="font-medium">{planExercise.name}</span>
+                          {exercise && renderTypeBadge(exercise.type)}
+                        </div>
+                        <div className="flex items-center space-x-1">
+                          <button
+                            type="button"
+                            onClick={() => handleMoveExercise(index, -1)}
+                            disabled={index === 0}
+                            className="p-1 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30"
+                            aria-label="Move up"
+                          >
+                            <ArrowUpIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleMoveExercise(index, 1)}
+                            disabled={index === planExercises.length - 1}
+                            className="p-1 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30"
+                            aria-label="Move down"
+                          >
+                            <ArrowDownIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveExercise(index)}
+                            className="p-1 text-red-500 hover:text-red-700 dark:hover:text-red-300"
+                            aria-label="Remove exercise"
+                          >
+                            <XMarkIcon className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+                      {!exercise && exercises.length > 0 && (
+                        <p className="mt-1 text-xs text-red-600 dark:text-red-400">Exercise not found. It may have been deleted.</p>
+                      )}
+                      <div className="flex items-center space-x-3 mt-2">
+                        <label className="flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-400">
+                          <input
+                            type="checkbox"
+                            checked={useDefault}
+                            onChange={(e) => handleCountChange(index, e.target.checked ? -1 : 0)}
+                          />
+                          <span>Use default</span>
+                        </label>
+                        {useDefault ? (
+                          <span className="text-sm text-gray-500 dark:text-gray-400">
+                            {exercise ? formatDefaultCount(exercise.type, exercise.defaultCount) : '-'}
+                          </span>
+                        ) : (
+                          <input
+                            type="number"
+                            min="1"
+                            value={planExercise.count || ''}
+                            onChange={(e) => handleCountChange(index, parseInt(e.target.value))}
+                            className="w-24 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            placeholder={exercise?.type === 'strength' ? 'Reps' : 'Seconds'}
+                          />
+                        )}
+                      </div>
+                      {exercise?.type === 'strength' && (
+                        <div className="mt-2 space-y-2 text-sm text-gray-600 dark:text-gray-400">
+                          <label className="flex items-center space-x-2">
+                            <span>Progression</span>
+                            <select
+                              value={planExercise.progression?.kind || ''}
+                              onChange={(e) => handleProgressionKindChange(index, e.target.value as ProgressionKind | '')}
+                              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              <option value="">None</option>
+                              {PROGRESSION_KINDS.map(({ kind, label }) => (
+                                <option key={kind} value={kind}>{label}</option>
+                              ))}
+                            </select>
+                          </label>
+                          {planExercise.progression && (
+                            <div className="grid grid-cols-2 gap-2">
+                              <label className="flex items-center space-x-1">
+                                <span>Reps</span>
+                                <input
+                                  type="number"
+                                  min="1"
+                                  value={numberValue(planExercise.progression.reps)}
+                                  onChange={(e) => handleProgressionChange(index, { reps: parseInt(e.target.value) })}
+                                  className={smallInputClass}
+                                  aria-label={planExercise.progression.kind === 'double' ? 'Bottom of rep range' : 'Target reps'}
+                                />
+                                {planExercise.progression.kind === 'double' && (
+                                  <>
+                                    <span>–</span>
+                                    <input
+                                      type="number"
+                                      min="1"
+                                      value={numberValue(planExercise.progression.maxReps)}
+                                      onChange={(e) => handleProgressionChange(index, { maxReps: parseInt(e.target.value) })}
+                                      className={smallInputClass}
+                                      aria-label="Top of rep range"
+                                    />
+                                  </>
+                                )}
+                              </label>
+                              <label className="flex items-center space-x-1">
+                                <span>Step</span>
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="0.5"
+                                  value={numberValue(planExercise.progression.increment)}
+                                  onChange={(e) => handleProgressionChange(index, { increment: parseFloat(e.target.value) })}
+                                  className={smallInputClass}
+                                  aria-label="Weight increment"
+                                />
+                                <select
+                                  value={planExercise.progression.unit}
+                                  onChange={(e) => handleProgressionChange(index, { unit: e.target.value as 'kg' | 'lbs' })}
+                                  className="px-1 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                  aria-label="Unit"
+                                >
+                                  <option value="lbs">lbs</option>
+                                  <option value="kg">kg</option>
+                                </select>
+                              </label>
+                              {planExercise.progression.kind === 'rpe' && (
+                                <label className="flex items-center space-x-1">
+                                  <span>Target RPE</span>
+                                  <input
+                                    type="number"
+                                    min="1"
+                                    max="10"
+                                    step="0.5"
+                                    value={numberValue(planExercise.progression.targetRpe)}
+                                    onChange={(e) => handleProgressionChange(index, { targetRpe: parseFloat(e.target.value) })}
+                                    className={smallInputClass}
+                                  />
+                                </label>
+                              )}
+                              <label className="col-span-2 flex items-center space-x-1">
+                                <span>Deload</span>
+                                <input
+                                  type="number"
+                                  min="1"
+                                  max="99"
+                                  value={numberValue(planExercise.progression.deloadPercent)}
+                                  onChange={(e) => handleProgressionChange(index, { deloadPercent: parseInt(e.target.value) })}
+                                  className={smallInputClass}
+                                  aria-label="Deload percent"
+                                />
+                                <span>% after</span>
+                                <input
+                                  type="number"
+                                  min="0"
+                                  value={numberValue(planExercise.progression.deloadAfter)}
+                                  onChange={(e) => handleProgressionChange(index, { deloadAfter: parseInt(e.target.value) })}
+                                  className={smallInputClass}
+                                  aria-label="Misses before a deload"
+                                />
+                                <span>misses (0 = never)</span>
+                              </label>
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <div className="text-red-600 dark:text-red-400 text-sm">{error}</div>
+          )}
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {plan ? 'Save Changes' : 'Add Plan'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -1,22 +1,37 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { Plan, ExerciseDB } from '../lib/indexdb_handler'
+import { useState, useEffect, useCallback } from 'react'
+import { Plan } from '../lib/indexdb_handler'
+import { useExerciseDB } from '../lib/db_store'
+import { useAppConfig } from '../lib/config_store'
+import { PlanAdherence, loadAdherence } from '../lib/adherence_utils'
+import { formatProgressionRule } from '../lib/progression_utils'
+import { formatSchedule, hasSchedule } from '../lib/schedule_utils'
+import PlanForm from './plan_form'
+import AdherenceStats from './adherence_stats'
 
-export default function PlanList() {
+interface PlanListProps {
+  onStartPlan?: (plan: Plan) => void
+}
+
+export default function PlanList({ onStartPlan }: PlanListProps) {
+  const db = useExerciseDB()
+  const { config } = useAppConfig()
   const [plans, setPlans] = useState<Plan[]>([])
+  const [adherence, setAdherence] = useState<Map<number, PlanAdherence>>(new Map())
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [, setEditingPlan] = useState<Plan | null>(null)
+  const [editingPlan, setEditingPlan] = useState<Plan | null>(null)
   const [pressedPlan, setPressedPlan] = useState<Plan | null>(null)
   const [loadingProgress, setLoadingProgress] = useState(0)
   const [, setIsLongPressing] = useState(false)
-  const [, setShowForm] = useState(false)
+  const [showForm, setShowForm] = useState(false)
 
-  const loadPlans = async () => {
+  const loadPlans = useCallback(async () => {
     try {
       setLoading(true)
-      const data = await ExerciseDB.getAllPlans()
+      const data = await db.getAllPlans()
+      setAdherence(await loadAdherence(db, data, config.completionRule))
       setPlans(data)
       setLoading(false)
     } catch (err) {
@@ -24,11 +39,11 @@ export default function PlanList() {
       setLoading(false)
       console.error('Error loading plans:', err)
     }
-  }
+  }, [db, config.completionRule])
 
   useEffect(() => {
     loadPlans()
-  }, [])
+  }, [loadPlans])
 
   // Clean up long press timer
   useEffect(() => {
@@ -74,25 +89,16 @@ export default function PlanList() {
     setPressedPlan(null)
   }
 
-  // const handlePlanComplete = async () => {
-  //   await loadPlans()
-  //   setEditingPlan(null)
-  //   setShowForm(false)
-  // }
-
-  // const handlePlanDelete = async () => {
-  //   await loadPlans()
-  //   setEditingPlan(null)
-  //   setShowForm(false)
-  // }
+  const handlePlanComplete = async () => {
+    await loadPlans()
+    setEditingPlan(null)
+    setShowForm(false)
+  }
 
-  const formatSchedule = (schedule: string): string => {
-    const days = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
-    return schedule
-      .split('')
-      .map((day, index) => day === '1' ? days[index] : null)
-      .filter(Boolean)
-      .join(', ')
+  const handlePlanDelete = async () => {
+    await loadPlans()
+    setEditingPlan(null)
+    setShowForm(false)
   }
 
   if (loading) {
@@ -109,7 +115,7 @@ export default function PlanList() {
   return (
     <div className="w-full max-w-4xl mx-auto p-4">
       <div className="flex items-center justify-between mb-6">
-        <h2 className="text-2xl font-bold text-gray-800">Workout Plans</h2>
+        <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200">Workout Plans</h2>
         <button
           onClick={() => {
             setEditingPlan(null)
@@ -122,11 +128,11 @@ export default function PlanList() {
       </div>
 
       {error ? (
-        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 rounded">
+        <div className="bg-red-100 dark:bg-red-900 border-l-4 border-red-500 text-red-700 dark:text-red-300 p-4 rounded">
           <p>{error}</p>
         </div>
       ) : plans.length === 0 ? (
-        <div className="text-center py-8 text-gray-500">
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">
           No workout plans found. Add some plans to get started!
         </div>
       ) : (
@@ -134,7 +140,7 @@ export default function PlanList() {
           {plans.map((plan) => (
             <div 
               key={plan.id}
-              className="rounded-lg shadow p-4 bg-white hover:bg-gray-50 relative"
+              className="rounded-lg shadow p-4 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 relative"
               onMouseDown={() => handleMouseDown(plan)}
               onMouseUp={handleMouseUp}
               onMouseLeave={handleMouseUp}
@@ -144,32 +150,48 @@ export default function PlanList() {
               <div style={loadingBarStyle(plan)}></div>
               <div className="relative z-10">
                 <div className="flex justify-between items-start mb-2">
-                  <h3 className="text-lg font-medium text-gray-900">{plan.name}</h3>
-                  <span className="text-sm text-gray-500">{formatSchedule(plan.schedule)}</span>
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">{plan.name}</h3>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">{formatSchedule(plan)}</span>
                 </div>
-                <div className="text-sm text-gray-600">
+                {onStartPlan && (
+                  <button
+                    onClick={() => onStartPlan(plan)}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onTouchStart={(e) => e.stopPropagation()}
+                    className="float-right ml-2 px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    Start
+                  </button>
+                )}
+                <div className="text-sm text-gray-600 dark:text-gray-400">
                   {plan.exercises.map((exercise, index) => (
                     <span key={exercise.name} className="inline-block">
                       {exercise.name}
                       {exercise.count > 0 && ` (${exercise.count})`}
+                      {exercise.progression && ` [${formatProgressionRule(exercise.progression)}]`}
                       {index < plan.exercises.length - 1 ? ', ' : ''}
                     </span>
                   ))}
                 </div>
+                {plan.id !== undefined && adherence.has(plan.id) && hasSchedule(plan) && (
+                  <div className="mt-3 pt-3 border-t border-gray-100 dark:border-gray-700">
+                    <AdherenceStats adherence={adherence.get(plan.id)!} detailed />
+                  </div>
+                )}
               </div>
             </div>
           ))}
         </div>
       )}
 
-      {/* {showForm && (
+      {showForm && (
         <PlanForm
           plan={editingPlan || undefined}
           onComplete={handlePlanComplete}
           onCancel={() => setShowForm(false)}
           onDelete={handlePlanDelete}
         />
-      )} */}
+      )}
     </div>
   )
 } 
\ No newline at end of file
@@ -0,0 +1,56 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import { useAppConfig } from '../lib/config_store'
+import { onPersonalRecords } from '../lib/pr_events'
+import { PersonalRecord, formatPRLabel, formatPRValue } from '../lib/pr_utils'
+
+interface PRNotice {
+  exerciseName: string
+  prs: PersonalRecord[]
+}
+
+const DISPLAY_MS = 6000
+
+// Banner shown when a saved record sets new personal records
+export default function PRToast() {
+  const { config } = useAppConfig()
+  const [notice, setNotice] = useState<PRNotice | null>(null)
+
+  useEffect(() => {
+    return onPersonalRecords((exerciseName, prs) => setNotice({ exerciseName, prs }))
+  }, [])
+
+  useEffect(() => {
+    if (!notice) return
+    const timeout = setTimeout(() => setNotice(null), DISPLAY_MS)
+    return () => clearTimeout(timeout)
+  }, [notice])
+
+  if (!notice) return null
+
+  return (
+    <div className="fixed top-4 inset-x-4 flex justify-center z-[60] pointer-events-none">
+      <div className="bg-yellow-50 dark:bg-yellow-950 border border-yellow-300 dark:border-yellow-700 rounded-lg shadow-lg p-4 w-full max-w-md pointer-events-auto">
+        <div className="flex justify-between items-start">
+          <p className="font-semibold text-yellow-800 dark:text-yellow-200">🏆 New PR: {notice.exerciseName}</p>
+          <button
+            onClick={() => setNotice(null)}
+            className="text-yellow-600 hover:text-yellow-800 dark:hover:text-yellow-200"
+            aria-label="Dismiss"
+          >
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+        <ul className="mt-1 text-sm text-yellow-900 dark:text-yellow-100">
+          {notice.prs.map((pr, index) => (
+            <li key={index}>
+              {formatPRLabel(pr, config.weightUnit)}: {formatPRValue(pr, config.weightUnit)}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
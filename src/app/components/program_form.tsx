@@ -0,0 +1,289 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import { Plan, Program, ProgramWeek } from '../lib/indexdb_handler'
+import { useExerciseDB } from '../lib/db_store'
+import { newProgramWeek } from '../lib/program_utils'
+
+interface ProgramFormProps {
+  program?: Program
+  plans: Plan[]
+  onComplete: () => void
+  onCancel: () => void
+  onDelete?: () => void
+}
+
+const numberInputClass = 'w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export default function ProgramForm({ program, plans, onComplete, onCancel, onDelete }: ProgramFormProps) {
+  const db = useExerciseDB()
+  const [name, setName] = useState(program?.name || '')
+  const [startDate, setStartDate] = useState(program?.startDate || format(new Date(), 'yyyy-MM-dd'))
+  const [repeat, setRepeat] = useState(program?.repeat || false)
+  const [weeks, setWeeks] = useState<ProgramWeek[]>(program?.weeks || [newProgramWeek()])
+  const [error, setError] = useState('')
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const updateWeek = (index: number, changes: Partial<ProgramWeek>) => {
+    setWeeks(weeks.map((week, i) => i === index ? { ...week, ...changes } : week))
+  }
+
+  const togglePlan = (index: number, planId: number) => {
+    const { planIds } = weeks[index]
+    updateWeek(index, {
+      planIds: planIds.includes(planId) ? planIds.filter(id => id !== planId) : [...planIds, planId],
+    })
+  }
+
+  // New weeks start as a copy of the last one
+  const addWeek = () => {
+    const last = weeks[weeks.length - 1]
+    setWeeks([...weeks, last ? { ...last, planIds: [...last.planIds] } : newProgramWeek()])
+  }
+
+  const removeWeek = (index: number) => {
+    setWeeks(weeks.filter((_, i) => i !== index))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (!name.trim()) {
+      setError('Please enter a program name')
+      return
+    }
+
+    if (!startDate) {
+      setError('Please pick a start date')
+      return
+    }
+
+    if (weeks.length === 0) {
+      setError('Please add at least one week')
+      return
+    }
+
+    const emptyWeek = weeks.findIndex(week => week.planIds.length === 0)
+    if (emptyWeek !== -1) {
+      setError(`Week ${emptyWeek + 1} has no plans`)
+      return
+    }
+
+    if (weeks.some(week => !(week.volume > 0) || !(week.intensity > 0))) {
+      setError('Volume and intensity must be positive percentages')
+      return
+    }
+
+    const data = { name: name.trim(), startDate, repeat, weeks }
+
+    try {
+      if (program?.id) {
+        await db.updateProgram(program.id, { ...program, ...data, updatedAt: new Date().toISOString() })
+      } else {
+        await db.addProgram({ ...data, createdAt: new Date().toISOString() })
+      }
+
+      onComplete()
+    } catch (err) {
+      // The program store has a unique index on name
+      if (err instanceof Error && err.name === 'ConstraintError') {
+        setError('A program with this name already exists')
+      } else {
+        setError('Failed to save program')
+      }
+      console.error('Error saving program:', err)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!program?.id) return
+
+    try {
+      setIsDeleting(true)
+      await db.deleteProgram(program.id)
+      onDelete?.()
+    } catch (err) {
+      setError('Failed to delete program')
+      console.error('Error deleting program:', err)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const handleDeleteClick = () => {
+    if (window.confirm('Are you sure you want to delete this program? Its plans are kept.')) {
+      handleDelete()
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600/80 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">
+            {program ? 'Edit Program' : 'Add New Program'}
+          </h2>
+          {program && (
+            <button
+              type="button"
+              onClick={handleDeleteClick}
+              disabled={isDeleting}
+              className="px-3 py-1 text-sm font-medium text-red-700 dark:text-red-300 bg-red-100 dark:bg-red-900 rounded-md
+                hover:bg-red-200 dark:hover:bg-red-800 focus:outline-none focus:ring-2 focus:ring-red-500
+                disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isDeleting ? 'Deleting...' : 'Delete'}
+            </button>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Program Name
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="e.g., 8-Week Strength Block"
+            />
+          </div>
+
+          <div className="flex items-end space-x-4">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Start Date
+              </label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <label className="flex items-center space-x-1 pb-2 text-sm text-gray-600 dark:text-gray-400">
+              <input type="checkbox" checked={repeat} onChange={(e) => setRepeat(e.target.checked)} />
+              <span>Repeat when done</span>
+            </label>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Weeks
+              </label>
+              <button
+                type="button"
+                onClick={addWeek}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+              >
+                + Add Week
+              </button>
+            </div>
+
+            {plans.length === 0 && (
+              <p className="mb-2 text-sm text-gray-500 dark:text-gray-400">Add some plans first; each week runs one or more of them.</p>
+            )}
+
+            <div className="space-y-2">
+              {weeks.map((week, index) => (
+                <div key={index} className="p-3 border rounded-md space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium whitespace-nowrap">Week {index + 1}</span>
+                    <input
+                      type="text"
+                      value={week.label || ''}
+                      onChange={(e) => updateWeek(index, { label: e.target.value || undefined })}
+                      className="flex-1 min-w-0 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Label, e.g. Deload"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeWeek(index)}
+                      className="p-1 text-red-500 hover:text-red-700 dark:hover:text-red-300"
+                      aria-label="Remove week"
+                    >
+                      <XMarkIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+
+                  <div className="flex flex-wrap gap-1">
+                    {plans.map(plan => (
+                      <button
+                        key={plan.id}
+                        type="button"
+                        onClick={() => togglePlan(index, plan.id as number)}
+                        className={`px-2 py-1 text-xs font-medium rounded-md border transition-colors ${
+                          week.planIds.includes(plan.id as number)
+                            ? 'border-blue-500 bg-blue-500 text-white'
+                            : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'
+                        }`}
+                      >
+                        {plan.name}
+                      </button>
+                    ))}
+                  </div>
+
+                  <div className="flex items-center space-x-3 text-sm text-gray-600 dark:text-gray-400">
+                    <label className="flex items-center space-x-1">
+                      <span>Sets</span>
+                      <input
+                        type="number"
+                        min="1"
+                        value={isNaN(week.volume) ? '' : week.volume}
+                        onChange={(e) => updateWeek(index, { volume: parseInt(e.target.value) })}
+                        className={numberInputClass}
+                        aria-label="Volume percent"
+                      />
+                      <span>%</span>
+                    </label>
+                    <label className="flex items-center space-x-1">
+                      <span>Weight</span>
+                      <input
+                        type="number"
+                        min="1"
+                        value={isNaN(week.intensity) ? '' : week.intensity}
+                        onChange={(e) => updateWeek(index, { intensity: parseInt(e.target.value) })}
+                        className={numberInputClass}
+                        aria-label="Intensity percent"
+                      />
+                      <span>%</span>
+                    </label>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Plans keep their own weekdays. Sets and weight scale the planned sets and suggested weights for the week.
+            </p>
+          </div>
+
+          {error && (
+            <div className="text-red-600 dark:text-red-400 text-sm">{error}</div>
+          )}
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {program ? 'Save Changes' : 'Add Program'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
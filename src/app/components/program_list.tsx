@@ -0,0 +1,154 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline'
+import { Plan, Program } from '../lib/indexdb_handler'
+import { useExerciseDB } from '../lib/db_store'
+import { programDay, formatProgramDay, startDateForWeek } from '../lib/program_utils'
+import ProgramForm from './program_form'
+
+export default function ProgramList() {
+  const db = useExerciseDB()
+  const [programs, setPrograms] = useState<Program[]>([])
+  const [plans, setPlans] = useState<Plan[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [editingProgram, setEditingProgram] = useState<Program | null>(null)
+  const [showForm, setShowForm] = useState(false)
+
+  const loadPrograms = useCallback(async () => {
+    try {
+      const [programData, planData] = await Promise.all([db.getAllPrograms(), db.getAllPlans()])
+      setPrograms(programData)
+      setPlans(planData)
+      setError(null)
+    } catch (err) {
+      setError('Failed to load programs')
+      console.error('Error loading programs:', err)
+    }
+  }, [db])
+
+  useEffect(() => {
+    loadPrograms()
+  }, [loadPrograms])
+
+  // Make another week the current one; the program carries on from there
+  const handleSetWeek = async (program: Program, weekNumber: number) => {
+    if (!program.id || weekNumber < 1 || weekNumber > program.weeks.length) return
+    try {
+      await db.updateProgram(program.id, { ...program, startDate: startDateForWeek(weekNumber) })
+      await loadPrograms()
+    } catch (err) {
+      setError('Failed to change the current week')
+      console.error('Error changing program week:', err)
+    }
+  }
+
+  const handleFormDone = async () => {
+    await loadPrograms()
+    setEditingProgram(null)
+    setShowForm(false)
+  }
+
+  const planName = (id: number) => plans.find(plan => plan.id === id)?.name || 'Deleted plan'
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200">Programs</h2>
+        <button
+          onClick={() => {
+            setEditingProgram(null)
+            setShowForm(true)
+          }}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          Add Program
+        </button>
+      </div>
+
+      {error ? (
+        <div className="bg-red-100 dark:bg-red-900 border-l-4 border-red-500 text-red-700 dark:text-red-300 p-4 rounded">
+          <p>{error}</p>
+        </div>
+      ) : programs.length === 0 ? (
+        <div className="text-center py-4 text-gray-500 dark:text-gray-400">
+          No programs yet. A program runs your plans over several weeks.
+        </div>
+      ) : (
+        <div className="grid gap-4">
+          {programs.map(program => {
+            const day = programDay(program, plans)
+            const current = day.status === 'active' ? day.weekNumber : null
+            return (
+              <div key={program.id} className="rounded-lg shadow p-4 bg-white dark:bg-gray-800">
+                <div className="flex justify-between items-start mb-2">
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">{program.name}</h3>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">{formatProgramDay(program, day)}</p>
+                  </div>
+                  <button
+                    onClick={() => {
+                      setEditingProgram(program)
+                      setShowForm(true)
+                    }}
+                    className="px-3 py-1 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600"
+                  >
+                    Edit
+                  </button>
+                </div>
+
+                <div className="flex gap-1 mb-2">
+                  {program.weeks.map((week, index) => (
+                    <button
+                      key={index}
+                      onClick={() => handleSetWeek(program, index + 1)}
+                      title={`Week ${index + 1}${week.label ? ` · ${week.label}` : ''}: ${week.planIds.map(planName).join(', ')} · ${week.volume}% sets, ${week.intensity}% weight`}
+                      className={`flex-1 h-6 text-xs rounded ${
+                        current === index + 1
+                          ? 'bg-blue-600 text-white'
+                          : current !== null && index + 1 < current
+                            ? 'bg-blue-200 dark:bg-blue-900'
+                            : 'bg-gray-100 dark:bg-gray-700'
+                      }`}
+                    >
+                      {week.label ? week.label.charAt(0) : index + 1}
+                    </button>
+                  ))}
+                </div>
+
+                {current !== null && (
+                  <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+                    <button
+                      onClick={() => handleSetWeek(program, current - 1)}
+                      disabled={current === 1}
+                      className="flex items-center p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+                    >
+                      <ChevronLeftIcon className="h-4 w-4" /> Back a week
+                    </button>
+                    <button
+                      onClick={() => handleSetWeek(program, current + 1)}
+                      disabled={current === program.weeks.length}
+                      className="flex items-center p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+                    >
+                      Skip a week <ChevronRightIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {showForm && (
+        <ProgramForm
+          program={editingProgram || undefined}
+          plans={plans}
+          onComplete={handleFormDone}
+          onCancel={() => setShowForm(false)}
+          onDelete={handleFormDone}
+        />
+      )}
+    </div>
+  )
+}
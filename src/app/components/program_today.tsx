@@ -0,0 +1,100 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { format } from 'date-fns'
+import { Plan, Program, ProgramWeek } from '../lib/indexdb_handler'
+import { useExerciseDB } from '../lib/db_store'
+import { useAppConfig } from '../lib/config_store'
+import { formatWeight } from '../lib/record_utils'
+import { WorkoutSession, createSession, formatTarget } from '../lib/session_store'
+import { loadPlanSuggestions } from '../lib/progression_utils'
+import { programDay, formatProgramDay, nextProgramSession, ProgramDay } from '../lib/program_utils'
+
+interface ProgramTodayProps {
+  onStartPlan: (plan: Plan, week?: ProgramWeek) => void
+}
+
+interface RunningProgram {
+  program: Program
+  day: ProgramDay
+  sessions: WorkoutSession[] // Today's prescribed work, one per plan
+  next: { date: Date, plans: Plan[] } | null
+}
+
+// Where each running program stands today and the work it prescribes
+export default function ProgramToday({ onStartPlan }: ProgramTodayProps) {
+  const db = useExerciseDB()
+  const { config } = useAppConfig()
+  const [running, setRunning] = useState<RunningProgram[]>([])
+
+  useEffect(() => {
+    const loadPrograms = async () => {
+      try {
+        const [programs, plans, exercises] = await Promise.all([db.getAllPrograms(), db.getAllPlans(), db.getAllExercises()])
+        const today = new Date()
+        const active: RunningProgram[] = []
+        for (const program of programs) {
+          const day = programDay(program, plans, today)
+          if (day.status !== 'active') continue
+          const sessions = await Promise.all(day.plans.map(async plan =>
+            createSession(plan, exercises, await loadPlanSuggestions(db, plan), day.week)))
+          active.push({ program, day, sessions, next: day.plans.length > 0 ? null : nextProgramSession(program, plans, today) })
+        }
+        setRunning(active)
+      } catch (err) {
+        console.error('Error loading programs:', err)
+      }
+    }
+    loadPrograms()
+  }, [db])
+
+  if (running.length === 0) return null
+
+  return (
+    <>
+      {running.map(({ program, day, sessions, next }) => (
+        <div key={program.id} className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+          <div className="border-b border-gray-200 dark:border-gray-700 pb-3 mb-4">
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">{program.name}</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {formatProgramDay(program, day)}
+              {day.week?.label && ` · ${day.week.label}`}
+            </p>
+          </div>
+
+          {sessions.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {next
+                ? `Next: ${next.plans.map(plan => plan.name).join(', ')} on ${format(next.date, 'EEE, MMM d')}`
+                : 'Nothing else scheduled this week'}
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {sessions.map((session, index) => (
+                <div key={session.planId} className="flex items-start justify-between">
+                  <div>
+                    <p className="font-medium">{session.planName}</p>
+                    <ul className="text-sm text-gray-500 dark:text-gray-400">
+                      {session.exercises.map((exercise, exerciseIndex) => (
+                        <li key={`${exerciseIndex}-${exercise.name}`}>
+                          {exercise.name}: {formatTarget(exercise)}
+                          {exercise.suggestion && ` @ ${formatWeight(exercise.suggestion.weight, exercise.suggestion.unit, config.weightUnit)}`}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                  <button
+                    onClick={() => onStartPlan(day.plans[index], day.week)}
+                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    Start
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </>
+  )
+}
@@ -1,47 +1,96 @@
 'use client'
 
-import React, { useState, useEffect } from 'react'
-import { Exercise, ExerciseRecord, ExerciseDB } from '../lib/indexdb_handler'
+import React, { useState, useEffect, useCallback } from 'react'
+import { format, parseISO } from 'date-fns'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import { Exercise, ExerciseRecord, RecordSet } from '../lib/indexdb_handler'
+import { useExerciseDB } from '../lib/db_store'
+import { useAppConfig } from '../lib/config_store'
 import { filterExercises, SearchInput } from '../lib/search_utils'
-import { renderTypeBadge, formatDefaultCount } from '../lib/exercise_utils'
+import { renderTypeBadge, formatDefaultCount, parseDefaultCount } from '../lib/exercise_utils'
+import { getRecordSets, summarizeSets, recordDateError, formatWeight } from '../lib/record_utils'
+import { startRestTimer, restSecondsFor } from '../lib/rest_timer'
+import { ProgressionSuggestion, progressionRuleFor, loadSuggestion } from '../lib/progression_utils'
+import ExerciseTimer from './exercise_timer'
 
 interface RecordFormProps {
   record?: ExerciseRecord
-  onComplete: () => void
+  date?: string // Day a new record is logged on; defaults to today
+  onComplete: (record: ExerciseRecord) => void
   onCancel: () => void
   onDelete?: () => void
 }
 
+// Form state for one set; inputs are kept as strings while editing
+interface SetInput {
+  count: string
+  weight: string
+  unit: 'kg' | 'lbs'
+  rpe: string
+  warmup: boolean
+}
+
+const emptySet = (count = '', unit: 'kg' | 'lbs' = 'lbs'): SetInput => ({
+  count,
+  weight: '',
+  unit,
+  rpe: '',
+  warmup: false,
+})
+
+const toSetInput = (set: RecordSet): SetInput => ({
+  count: set.count.toString(),
+  weight: set.weight?.toString() || '',
+  unit: set.unit || 'lbs',
+  rpe: set.rpe?.toString() || '',
+  warmup: set.warmup,
+})
+
 export default function RecordForm({ 
   record,
+  date,
   onComplete,
   onCancel,
   onDelete
 }: RecordFormProps) {
+  const db = useExerciseDB()
+  const { config } = useAppConfig()
   const [exercises, setExercises] = useState<Exercise[]>([])
   const [filteredExercises, setFilteredExercises] = useState<Exercise[]>([])
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedExercise, setSelectedExercise] = useState<Exercise | null>(null)
-  const [count, setCount] = useState('')
-  const [rpe, setRpe] = useState('')
+  const [sets, setSets] = useState<SetInput[]>([])
   const [note, setNote] = useState('')
+  const [recordDate, setRecordDate] = useState(record?.date || date || format(new Date(), 'yyyy-MM-dd'))
+  const [recordTime, setRecordTime] = useState(record?.time.slice(0, 5) || format(new Date(), 'HH:mm'))
+  const [timeEdited, setTimeEdited] = useState(false)
+  const [suggestion, setSuggestion] = useState<ProgressionSuggestion | null>(null)
   const [loading, setLoading] = useState(false)
-  const [weight, setWeight] = useState('')
-  const [unit, setUnit] = useState<'kg' | 'lbs'>('lbs')
   const [isDeleting, setIsDeleting] = useState(false)
   const [error, setError] = useState('')
 
+  const loadExercises = useCallback(async () => {
+    try {
+      setLoading(true)
+      const data = await db.getAllExercises()
+      setExercises(data)
+      setLoading(false)
+    } catch (err) {
+      console.error('Error loading exercises:', err)
+      setLoading(false)
+    }
+  }, [db])
+
   // Load exercises and set initial values if editing
   useEffect(() => {
     loadExercises()
     if (record) {
-      setCount(record.count.toString())
-      setRpe(record.rpe?.toString() || '')
+      setSets(getRecordSets(record).map(toSetInput))
       setNote(record.note || '')
-      setWeight(record.weight?.toString() || '')
-      setUnit(record.unit || 'lbs')
+      setRecordDate(record.date)
+      setRecordTime(record.time.slice(0, 5))
     }
-  }, [record])
+  }, [record, loadExercises])
 
   // Find and set the selected exercise when editing
   useEffect(() => {
@@ -60,82 +109,154 @@ export default function RecordForm({
     setFilteredExercises(filterExercises(exercises, searchTerm))
   }, [searchTerm, exercises])
 
-  const loadExercises = async () => {
-    try {
-      setLoading(true)
-      const data = await ExerciseDB.getAllExercises()
-      setExercises(data)
-      setLoading(false)
-    } catch (err) {
-      console.error('Error loading exercises:', err)
-      setLoading(false)
+  // Target from the progression rule of a plan the new record's exercise is in,
+  // looked up again when the day changes, since plans scheduled that day come first
+  useEffect(() => {
+    setSuggestion(null)
+    if (record || selectedExercise?.type !== 'strength') return
+
+    const exerciseName = selectedExercise.name
+    const loadExerciseSuggestion = async () => {
+      try {
+        const rule = progressionRuleFor(await db.getAllPlans(), exerciseName, parseISO(recordDate))
+        if (rule) setSuggestion(await loadSuggestion(db, exerciseName, rule))
+      } catch (err) {
+        console.error('Error loading progression suggestion:', err)
+      }
     }
-  }
+    loadExerciseSuggestion()
+  }, [db, record, selectedExercise, recordDate])
 
   const handleExerciseSelect = (exercise: Exercise) => {
     setSelectedExercise(exercise)
     
     if (exercise.type !== 'strength') {
-      setWeight('')
+      setSets(sets.map(set => ({ ...set, weight: '' })))
     }
     
-    if (!record) { // Only set default count for new records
+    if (!record) { // Only set default sets for new records
       if (exercise.type === 'strength') {
-        const match = exercise.defaultCount.match(/(\d+)s(\d+)r/)
-        if (match) {
-          const [, , reps] = match
-          setCount(reps)
-        } else {
-          setCount('')
-        }
+        const { sets: setCount, count: reps } = parseDefaultCount(exercise.type, exercise.defaultCount)
+        setSets(Array.from({ length: setCount }, () => emptySet(isNaN(reps) ? '' : reps.toString(), config.weightUnit)))
       } else {
-        setCount(exercise.defaultCount)
+        setSets([emptySet(exercise.defaultCount, config.weightUnit)])
       }
     }
   }
 
+  const updateSet = (index: number, changes: Partial<SetInput>) => {
+    setSets(sets.map((set, i) => i === index ? { ...set, ...changes } : set))
+  }
+
+  // New sets start as a copy of the last one
+  const addSet = () => {
+    const last = sets[sets.length - 1]
+    setSets([...sets, last ? { ...last, warmup: false } : emptySet('', config.weightUnit)])
+  }
+
+  // Fill the working sets with the suggested weight and reps
+  const applySuggestion = (target: ProgressionSuggestion) => {
+    setSets(sets.map(set => set.warmup ? set : {
+      ...set,
+      count: target.reps.toString(),
+      weight: target.weight.toString(),
+      unit: target.unit,
+    }))
+  }
+
+  const removeSet = (index: number) => {
+    setSets(sets.filter((_, i) => i !== index))
+  }
+
+  const setsComplete = sets.length > 0 && sets.every(set => set.count !== '')
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    
-    if (!selectedExercise) return
+    await saveRecord(sets)
+  }
+
+  // Fill in the timed sets and save them straight away
+  const handleTimerFinish = async (durations: number[]) => {
+    const timedSets = durations.map(seconds => emptySet(seconds.toString(), config.weightUnit))
+    setSets(timedSets)
+    return saveRecord(timedSets)
+  }
+
+  // The input only has minutes, so keep the stored seconds unless the time was changed.
+  // A new record logged without touching the time is stamped when it's saved.
+  const savedTime = () => {
+    if (!timeEdited) {
+      if (record) return record.time
+      if (recordDate === format(new Date(), 'yyyy-MM-dd')) return format(new Date(), 'HH:mm:ss')
+    }
+    return `${recordTime}:00`
+  }
+
+  // Resolves to whether the record was saved
+  const saveRecord = async (setInputs: SetInput[]): Promise<boolean> => {
+    if (!selectedExercise) return false
     
     try {
-      const countValue = parseInt(count)
-      const rpeValue = rpe ? parseFloat(rpe) : null
-      const weightValue = weight ? parseFloat(weight) : undefined
+      const recordSets: RecordSet[] = setInputs.map(set => ({
+        count: parseInt(set.count),
+        weight: selectedExercise.type === 'strength' && set.weight ? parseFloat(set.weight) : undefined,
+        unit: set.unit,
+        rpe: set.rpe ? parseFloat(set.rpe) : null,
+        warmup: set.warmup,
+      }))
+
+      if (recordSets.some(set => isNaN(set.count) || set.count <= 0)) {
+        setError('Every set needs a positive count')
+        return false
+      }
+
+      if (recordSets.every(set => set.warmup)) {
+        setError('Add at least one working set')
+        return false
+      }
+
+      const time = savedTime()
+      const dateError = recordDateError(recordDate, time)
+      if (dateError) {
+        setError(dateError)
+        return false
+      }
 
       const recordData: ExerciseRecord = {
         exerciseName: selectedExercise.name,
-        count: countValue,
-        rpe: rpeValue,
+        sets: recordSets,
+        ...summarizeSets(recordSets),
         note,
-        date: record?.date || new Date().toISOString().split('T')[0],
-        time: record?.time || new Date().toTimeString().split(' ')[0],
-        weight: weightValue,
-        unit: unit
+        date: recordDate,
+        time,
       }
 
       let success: boolean;
 
       if (record) {
-        success = await ExerciseDB.updateRecord(record.id, recordData)
+        success = await db.updateRecord(record.id, recordData)
       } else {
-        const recordId = await ExerciseDB.addRecord(recordData)
+        const recordId = await db.addRecord(recordData)
         recordData.id = recordId
         success = true
 
+        if (selectedExercise.type === 'strength') {
+          startRestTimer(selectedExercise.name, restSecondsFor(selectedExercise, config.restSeconds))
+        }
       }
 
       if (!success) {
         setError('Failed to save record');
-        return;
+        return false;
       }
 
-      onComplete()
+      onComplete(recordData)
       resetForm()
+      return true
     } catch (err) {
       setError('Failed to save record');
       console.error('Error saving record:', err);
+      return false
     }
   }
 
@@ -144,7 +265,7 @@ export default function RecordForm({
 
     try {
       setIsDeleting(true)
-      await ExerciseDB.deleteRecord(record.id)
+      await db.deleteRecord(record.id)
       onDelete?.()
     } catch (err) {
       console.error('Error deleting record:', err)
@@ -161,17 +282,14 @@ export default function RecordForm({
 
   const resetForm = () => {
     setSelectedExercise(null)
-    setCount('')
-    setRpe('')
+    setSets([])
     setNote('')
-    setWeight('')
-    setUnit('lbs')
   }
 
   return (
     <>
         <div className="fixed inset-0 bg-gray-600/80 backdrop-blur-sm flex items-center justify-center p-4 z-50">
-          <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md">
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-xl font-semibold">
                 {record ? 'Edit Record' : 'Add Record'}
@@ -191,7 +309,7 @@ export default function RecordForm({
             </div>
             
             {error && (
-              <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-md">
+              <div className="mb-4 p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded-md">
                 {error}
               </div>
             )}
@@ -199,11 +317,11 @@ export default function RecordForm({
             <form onSubmit={handleSubmit}>
               {/* Exercise Selection */}
               <div className="mb-4">
-                <label className="block text-sm font-medium text-gray-700 mb-1">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   Choose Exercise
                 </label>
                 {loading ? (
-                  <div className="py-2 px-3 border rounded-md text-center text-gray-500">
+                  <div className="py-2 px-3 border rounded-md text-center text-gray-500 dark:text-gray-400">
                     Loading exercises...
                   </div>
                 ) : (
@@ -225,7 +343,7 @@ export default function RecordForm({
                           <button
                             type="button"
                             onClick={() => setSelectedExercise(null)}
-                            className="text-gray-500 hover:text-gray-700"
+                            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
                           >
                             Change
                           </button>
@@ -237,7 +355,7 @@ export default function RecordForm({
                           <div
                             key={exercise.name}
                             onClick={() => handleExerciseSelect(exercise)}
-                            className="rounded-lg shadow p-4 cursor-pointer hover:bg-gray-100"
+                            className="rounded-lg shadow p-4 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700"
                           >
                             <div className="flex items-center justify-between">
                               <p className="font-medium">{exercise.name}</p>
@@ -253,68 +371,155 @@ export default function RecordForm({
               
               {selectedExercise && (
                 <>
-                  {selectedExercise.type === 'strength' && (
-                    <div className="mb-4">
-                      <label htmlFor="weight" className="block text-sm font-medium text-gray-700 mb-1">
-                        Weight
-                      </label>
-                      <div className="flex space-x-2">
-                        <input
-                          type="number"
-                          id="weight"
-                          value={weight}
-                          onChange={(e) => setWeight(e.target.value)}
-                          className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                          placeholder="Enter weight"
-                          step="5"
-                        />
-                        <select
-                          value={unit}
-                          onChange={(e) => setUnit(e.target.value as 'kg' | 'lbs')}
-                          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                        >
-                          <option value="lbs">lbs</option>
-                          <option value="kg">kg</option>
-                        </select>
+                  {!record && selectedExercise.type !== 'strength' && (
+                    <ExerciseTimer
+                      defaultSeconds={parseDefaultCount(selectedExercise.type, selectedExercise.defaultCount).count}
+                      onFinish={handleTimerFinish}
+                    />
+                  )}
+
+                  {suggestion && (
+                    <div className={`mb-4 p-3 rounded-md flex items-center justify-between space-x-2 ${
+                      suggestion.deload
+                        ? 'bg-yellow-50 dark:bg-yellow-950 text-yellow-800 dark:text-yellow-200'
+                        : 'bg-blue-50 dark:bg-blue-950 text-blue-800 dark:text-blue-200'
+                    }`}>
+                      <div>
+                        <p className="text-sm font-medium">Suggested {suggestion.reps} reps @ {formatWeight(suggestion.weight, suggestion.unit, config.weightUnit)}</p>
+                        <p className="text-xs">{suggestion.reason}</p>
                       </div>
+                      <button
+                        type="button"
+                        onClick={() => applySuggestion(suggestion)}
+                        className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+                      >
+                        Use
+                      </button>
                     </div>
                   )}
 
                   <div className="mb-4">
-                    <label htmlFor="count" className="block text-sm font-medium text-gray-700 mb-1">
-                      {selectedExercise.type === 'strength' ? 'Total Reps' : 'Duration (seconds)'}
-                    </label>
-                    <input
-                      type="number"
-                      id="count"
-                      value={count}
-                      onChange={(e) => setCount(e.target.value)}
-                      className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                      required
-                    />
-                  </div>
-                  
-                  <div className="mb-4">
-                    <label htmlFor="rpe" className="block text-sm font-medium text-gray-700 mb-1">
-                      RPE (Rate of Perceived Exertion) 1-10 (optional)
-                    </label>
-                    <input
-                      type="number"
-                      id="rpe"
-                      min="1"
-                      max="10"
-                      step="0.5"
-                      value={rpe}
-                      onChange={(e) => setRpe(e.target.value)}
-                      className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                    />
-                    <p className="mt-1 text-xs text-gray-500">
-                      1 = Very Easy, 10 = Maximum Effort
+                    <div className="flex justify-between items-center mb-1">
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Sets · {selectedExercise.type === 'strength' ? 'reps' : 'seconds'}
+                        {selectedExercise.type === 'strength' && ', weight'}, RPE
+                      </label>
+                      <button
+                        type="button"
+                        onClick={addSet}
+                        className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+                      >
+                        + Add Set
+                      </button>
+                    </div>
+                    <div className="space-y-2">
+                      {sets.map((set, index) => (
+                        <div key={index} className="flex items-center space-x-1">
+                          <button
+                            type="button"
+                            onClick={() => updateSet(index, { warmup: !set.warmup })}
+                            className={`w-8 h-8 flex-shrink-0 text-xs font-medium rounded-md ${
+                              set.warmup
+                                ? 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200'
+                                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                            }`}
+                            title={set.warmup ? 'Warm-up set' : 'Working set'}
+                          >
+                            {set.warmup ? 'W' : index + 1 - sets.slice(0, index).filter(s => s.warmup).length}
+                          </button>
+                          <input
+                            type="number"
+                            value={set.count}
+                            onChange={(e) => updateSet(index, { count: e.target.value })}
+                            className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                            placeholder={selectedExercise.type === 'strength' ? 'Reps' : 'Sec'}
+                            aria-label="Count"
+                            required
+                          />
+                          {selectedExercise.type === 'strength' && (
+                            <>
+                              <input
+                                type="number"
+                                value={set.weight}
+                                onChange={(e) => updateSet(index, { weight: e.target.value })}
+                                className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                                placeholder="Weight"
+                                aria-label="Weight"
+                                step="5"
+                              />
+                              <select
+                                value={set.unit}
+                                onChange={(e) => updateSet(index, { unit: e.target.value as 'kg' | 'lbs' })}
+                                className="px-1 py-1 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                                aria-label="Unit"
+                              >
+                                <option value="lbs">lbs</option>
+                                <option value="kg">kg</option>
+                              </select>
+                            </>
+                          )}
+                          <input
+                            type="number"
+                            min="1"
+                            max="10"
+                            step="0.5"
+                            value={set.rpe}
+                            onChange={(e) => updateSet(index, { rpe: e.target.value })}
+                            className="w-14 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                            placeholder="RPE"
+                            aria-label="RPE"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => removeSet(index)}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            aria-label="Remove set"
+                          >
+                            <XMarkIcon className="h-4 w-4" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      Tap the set number to mark a warm-up. RPE 1 = Very Easy, 10 = Maximum Effort
                     </p>
                   </div>
                   
+                  <div className="mb-4 flex space-x-2">
+                    <div className="flex-1">
+                      <label htmlFor="record-date" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Date
+                      </label>
+                      <input
+                        id="record-date"
+                        type="date"
+                        value={recordDate}
+                        max={format(new Date(), 'yyyy-MM-dd')}
+                        onChange={(e) => setRecordDate(e.target.value)}
+                        className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        required
+                      />
+                    </div>
+                    <div className="flex-1">
+                      <label htmlFor="record-time" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Time
+                      </label>
+                      <input
+                        id="record-time"
+                        type="time"
+                        value={recordTime}
+                        onChange={(e) => {
+                          setRecordTime(e.target.value)
+                          setTimeEdited(true)
+                        }}
+                        className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        required
+                      />
+                    </div>
+                  </div>
+
                   <div className="mb-4">
-                    <label htmlFor="note" className="block text-sm font-medium text-gray-700 mb-1">
+                    <label htmlFor="note" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                       Notes (optional)
                     </label>
                     <textarea
@@ -322,7 +527,7 @@ export default function RecordForm({
                       value={note}
                       onChange={(e) => setNote(e.target.value)}
                       rows={2}
-                      className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                     />
                   </div>
                 </>
@@ -334,16 +539,16 @@ export default function RecordForm({
                   onClick={() => {
                     onCancel()
                   }}
-                  className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
                   Cancel
                 </button>
                 <button
                   type="submit"
-                  disabled={!selectedExercise || !count}
+                  disabled={!selectedExercise || !setsComplete}
                   className={`px-4 py-2 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                    !selectedExercise || !count
-                      ? 'bg-blue-300 cursor-not-allowed'
+                    !selectedExercise || !setsComplete
+                      ? 'bg-blue-300 dark:bg-blue-900 cursor-not-allowed'
                       : 'bg-blue-600 hover:bg-blue-700'
                   }`}
                 >
@@ -352,7 +557,7 @@ export default function RecordForm({
               </div>
             </form>
             {!record && selectedExercise && (
-              <div className="text-sm text-gray-500 mt-1">
+              <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">
                 Default: {formatDefaultCount(selectedExercise.type, selectedExercise.defaultCount)}
               </div>
             )}
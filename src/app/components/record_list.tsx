@@ -1,43 +1,64 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { format, addDays, subDays } from 'date-fns'
-import { ExerciseDB, ExerciseRecord } from '../lib/indexdb_handler'
+import { ExerciseRecord } from '../lib/indexdb_handler'
+import { useExerciseDB } from '../lib/db_store'
+import { useAppConfig } from '../lib/config_store'
 import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline'
 import RecordForm from './record_form'
+import { formatSets, formatWeight, getRecordSets } from '../lib/record_utils'
+import { PersonalRecord, groupByRecord, formatPRLabel, formatPRValue } from '../lib/pr_utils'
+import { recordOneRepMax } from '../lib/e1rm_utils'
 
 interface RecordListProps {
   dash?: boolean;
+  date?: string; // Day to show, e.g. one picked on the calendar; defaults to today
 }
 
-export default function RecordList({ dash = false }: RecordListProps) {
+export default function RecordList({ dash = false, date }: RecordListProps) {
+  const db = useExerciseDB()
+  const { config } = useAppConfig()
   const [records, setRecords] = useState<ExerciseRecord[]>([])
+  const [personalRecords, setPersonalRecords] = useState<Map<number, PersonalRecord[]>>(new Map())
   const [loading, setLoading] = useState(true)
-  const [selectedDate, setSelectedDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [selectedDate, setSelectedDate] = useState(date || format(new Date(), 'yyyy-MM-dd'))
   const [showForm, setShowForm] = useState(false)
   const [editingRecord, setEditingRecord] = useState<ExerciseRecord | null>(null)
   const [pressedRecord, setPressedRecord] = useState<ExerciseRecord | null>(null)
   const [loadingProgress, setLoadingProgress] = useState(0)
   const [, setIsLongPressing] = useState(false)
 
-  useEffect(() => {
-    loadRecords()
-  },[])
+  // PRs set by the shown records, recomputed on every load so edits and deletes are reflected
+  const loadPersonalRecords = useCallback(async (shown: ExerciseRecord[]) => {
+    const exerciseNames = Array.from(new Set(shown.map(record => record.exerciseName)))
+    const histories = await Promise.all(exerciseNames.map(name => db.getPersonalRecords(name)))
+    return groupByRecord(histories.flat())
+  }, [db])
 
-  const loadRecords = async () => {
+  const loadRecords = useCallback(async () => {
     try {
       setLoading(true)
-      const records = await ExerciseDB.getRecordsByDateRange(selectedDate, selectedDate)
+      const records = await db.getRecordsByDateRange(selectedDate, selectedDate)
       const sortedRecords = records.sort((a, b) => 
         new Date(`${a.date} ${a.time}`).getTime() - new Date(`${b.date} ${b.time}`).getTime()
       )
       setRecords(sortedRecords)
+      setPersonalRecords(await loadPersonalRecords(sortedRecords))
       setLoading(false)
     } catch (error) {
       console.error('Error fetching records:', error)
       setLoading(false)
     }
-  }
+  }, [db, selectedDate, loadPersonalRecords])
+
+  useEffect(() => {
+    loadRecords()
+  }, [loadRecords])
+
+  useEffect(() => {
+    if (date) setSelectedDate(date)
+  }, [date])
 
   const handleDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSelectedDate(e.target.value)
@@ -59,8 +80,13 @@ export default function RecordList({ dash = false }: RecordListProps) {
     return date
   }
 
-  const handleRecordComplete = async () => {
-    await loadRecords()
+  // Follow a record saved on another day so it doesn't seem to vanish
+  const handleRecordComplete = async (saved: ExerciseRecord) => {
+    if (!dash && saved.date !== selectedDate) {
+      setSelectedDate(saved.date)
+    } else {
+      await loadRecords()
+    }
     setEditingRecord(null)
     setShowForm(false)
   }
@@ -129,6 +155,11 @@ export default function RecordList({ dash = false }: RecordListProps) {
 
   const displayRecords = dash ? records.slice(0, 5) : records
 
+  const formatOneRepMax = (record: ExerciseRecord) => {
+    const estimate = recordOneRepMax(record, config.weightUnit, config.e1rmFormula)
+    return estimate ? ` e1RM: ${formatWeight(estimate.value, estimate.unit)}` : ''
+  }
+
   const content = (
     <>
       {!dash && (
@@ -137,20 +168,20 @@ export default function RecordList({ dash = false }: RecordListProps) {
             <div className="flex items-center space-x-2">
               <button
                 onClick={handlePreviousDay}
-                className="p-1 rounded-full hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
                 aria-label="Previous day"
               >
-                <ChevronLeftIcon className="h-5 w-5 text-gray-600" />
+                <ChevronLeftIcon className="h-5 w-5 text-gray-600 dark:text-gray-400" />
               </button>
               <input
                 type="date"
                 value={selectedDate}
                 onChange={handleDateChange}
-                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               />
               <button
                 onClick={handleNextDay}
-                className="p-1 rounded-full hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
                 disabled={selectedDate >= format(new Date(), 'yyyy-MM-dd')}
                 aria-label="Next day"
               >
@@ -158,7 +189,7 @@ export default function RecordList({ dash = false }: RecordListProps) {
                   className={`h-5 w-5 ${
                     selectedDate >= format(new Date(), 'yyyy-MM-dd')
                       ? 'text-gray-300'
-                      : 'text-gray-600'
+                      : 'text-gray-600 dark:text-gray-400'
                   }`} 
                 />
               </button>
@@ -175,6 +206,7 @@ export default function RecordList({ dash = false }: RecordListProps) {
           </button>
           {showForm && (
             <RecordForm
+              date={selectedDate}
               onComplete={handleRecordComplete}
               onCancel={()=>setShowForm(false)}
             />
@@ -184,22 +216,22 @@ export default function RecordList({ dash = false }: RecordListProps) {
 
       {dash && (
         <div className="mb-6">
-          <h2 className="text-xl font-semibold text-gray-800 border-b border-gray-200 pb-3">
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 border-b border-gray-200 dark:border-gray-700 pb-3">
             Most recent 5 workouts
           </h2>
         </div>
       )}
 
       {records.length === 0 ? (
-        <div className="text-center py-8 text-gray-500">
-          No workouts recorded {!dash && `on ${format(new Date(selectedDate), 'MMM d, yyyy')}`}
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+          No workouts recorded {!dash && `on ${format(parseDate(selectedDate), 'MMM d, yyyy')}`}
         </div>
       ) : (
         <div className="space-y-2">
           {displayRecords.map((record) => (
             <div 
               key={record.id}
-              className="rounded-lg shadow p-4 bg-white hover:bg-gray-50 relative"
+              className="rounded-lg shadow p-4 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 relative"
               onMouseDown={() => handleMouseDown(record)}
               onMouseUp={handleMouseUp}
               onMouseLeave={handleMouseUp}
@@ -210,13 +242,22 @@ export default function RecordList({ dash = false }: RecordListProps) {
               <div className="flex items-center justify-between relative z-10">
                 <div className="flex items-center space-x-2">
                   <span className="font-medium select-none">{record.exerciseName}</span>
-                  <span className="text-gray-500 select-none">
-                    {record.count} {record.weight && `@ ${record.weight}${record.unit}`} 
+                  {record.id && personalRecords.has(record.id) && (
+                    <span
+                      className="px-2 py-0.5 text-xs font-medium bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 rounded select-none"
+                      title={personalRecords.get(record.id)?.map(pr => `${formatPRLabel(pr, config.weightUnit)}: ${formatPRValue(pr, config.weightUnit)}`).join('\n')}
+                    >
+                      🏆 PR
+                    </span>
+                  )}
+                  <span className="text-gray-500 dark:text-gray-400 select-none">
+                    {formatSets(getRecordSets(record), config.weightUnit)}
                     {record.rpe && ` RPE: ${record.rpe}`}
+                    {formatOneRepMax(record)}
                     {record.note && ` - ${record.note}`}
                   </span>
                 </div>
-                <span className="text-xs text-gray-500 select-none">
+                <span className="text-xs text-gray-500 dark:text-gray-400 select-none">
                   {format(new Date(`${record.date} ${record.time}`), 'HH:mm')}
                 </span>
               </div>
@@ -238,7 +279,7 @@ export default function RecordList({ dash = false }: RecordListProps) {
 
   if (dash) {
     return (
-      <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
         {content}
       </div>
     );
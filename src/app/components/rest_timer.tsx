@@ -0,0 +1,104 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import {
+  RestTimer as Timer, onRestTimer, loadRestTimer, adjustRestTimer, stopRestTimer,
+  remainingSeconds, formatDuration, alertRestOver,
+} from '../lib/rest_timer'
+
+// How long "Rest over" stays up before the overlay closes itself
+const DONE_DISPLAY_MS = 10000
+
+// Countdown shown while resting between sets
+export default function RestTimer() {
+  const [timer, setTimer] = useState<Timer | null>(null)
+  const [now, setNow] = useState(Date.now())
+
+  useEffect(() => {
+    setTimer(loadRestTimer())
+    return onRestTimer(setTimer)
+  }, [])
+
+  // The interval only redraws; the time left always comes from the end timestamp.
+  // Background tabs throttle timers, so redraw as soon as the tab is visible again.
+  useEffect(() => {
+    if (!timer) return
+    const tick = () => setNow(Date.now())
+    tick()
+    const interval = setInterval(tick, 250)
+    document.addEventListener('visibilitychange', tick)
+    return () => {
+      clearInterval(interval)
+      document.removeEventListener('visibilitychange', tick)
+    }
+  }, [timer])
+
+  useEffect(() => {
+    if (!timer) return
+    const done = setTimeout(() => alertRestOver(timer.exerciseName), Math.max(0, timer.endsAt - Date.now()))
+    const close = setTimeout(stopRestTimer, Math.max(0, timer.endsAt - Date.now()) + DONE_DISPLAY_MS)
+    return () => {
+      clearTimeout(done)
+      clearTimeout(close)
+    }
+  }, [timer])
+
+  if (!timer) return null
+
+  const remaining = remainingSeconds(timer, now)
+  const total = (timer.endsAt - timer.startedAt) / 1000
+  const progress = total > 0 ? Math.min(1, (total - (timer.endsAt - now) / 1000) / total) : 1
+
+  return (
+    <div className="fixed bottom-4 inset-x-4 flex justify-center z-[60] pointer-events-none">
+      <div className={`rounded-lg shadow-lg p-4 w-full max-w-sm pointer-events-auto border ${
+        remaining === 0 ? 'bg-green-50 dark:bg-green-950 border-green-300 dark:border-green-700' : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700'
+      }`}>
+        <div className="flex justify-between items-start">
+          <p className="text-sm text-gray-600 dark:text-gray-400">Rest · {timer.exerciseName}</p>
+          <button
+            onClick={stopRestTimer}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            aria-label="Stop rest timer"
+          >
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        {remaining === 0 ? (
+          <p className="text-2xl font-semibold text-green-700 dark:text-green-300 text-center my-2">Rest over, next set!</p>
+        ) : (
+          <p className="text-4xl font-semibold text-center tabular-nums my-2">{formatDuration(remaining)}</p>
+        )}
+
+        <div className="h-1.5 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-500" style={{ width: `${progress * 100}%` }} />
+        </div>
+
+        {remaining > 0 && (
+          <div className="flex gap-2 mt-3">
+            <button
+              onClick={() => adjustRestTimer(-15)}
+              className="flex-1 py-1 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600"
+            >
+              −15s
+            </button>
+            <button
+              onClick={() => adjustRestTimer(15)}
+              className="flex-1 py-1 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600"
+            >
+              +15s
+            </button>
+            <button
+              onClick={stopRestTimer}
+              className="flex-1 py-1 text-sm font-medium text-blue-700 dark:text-blue-300 bg-blue-100 dark:bg-blue-900 rounded-md hover:bg-blue-200 dark:hover:bg-blue-800"
+            >
+              Skip
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
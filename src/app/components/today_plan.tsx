@@ -0,0 +1,112 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { format, addDays } from 'date-fns'
+import { Plan } from '../lib/indexdb_handler'
+import { useExerciseDB } from '../lib/db_store'
+import { useAppConfig } from '../lib/config_store'
+import { plansDueOn, isPlanScheduled, rotationMembers, skipDay, postponeDay } from '../lib/schedule_utils'
+import { loadRotations } from '../lib/adherence_utils'
+import { activeProgramPlanIds } from '../lib/program_utils'
+
+interface TodayPlanProps {
+  onStartPlan: (plan: Plan) => void
+}
+
+export default function TodayPlan({ onStartPlan }: TodayPlanProps) {
+  const db = useExerciseDB()
+  const { config } = useAppConfig()
+  const [plans, setPlans] = useState<Plan[]>([])
+  const [allPlans, setAllPlans] = useState<Plan[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const loadPlans = useCallback(async () => {
+    try {
+      const [planData, programs] = await Promise.all([db.getAllPlans(), db.getAllPrograms()])
+      // Plans in a running program show up under the program instead
+      const programPlanIds = activeProgramPlanIds(programs, planData)
+      const rotations = await loadRotations(db, planData, config.completionRule)
+      setPlans(plansDueOn(planData, new Date(), rotations).filter(plan => !programPlanIds.has(plan.id as number)))
+      setAllPlans(planData)
+    } catch (err) {
+      console.error('Error loading plans:', err)
+    }
+  }, [db, config.completionRule])
+
+  useEffect(() => {
+    loadPlans()
+  }, [loadPlans])
+
+  const today = format(new Date(), 'yyyy-MM-dd')
+
+  // Skipping or postponing only changes today; the plan's pattern stays as it is.
+  // A rotation's day is moved as a whole, whichever of its plans is due.
+  const handleReschedule = async (plan: Plan, postpone: boolean) => {
+    const targets = plan.rotation
+      ? rotationMembers(allPlans, plan.rotation).filter(member => isPlanScheduled(member, new Date()))
+      : [plan]
+    try {
+      const tomorrow = format(addDays(new Date(), 1), 'yyyy-MM-dd')
+      for (const target of targets) {
+        if (target.id === undefined) continue
+        await db.updatePlan(target.id, postpone ? postponeDay(target, today, tomorrow) : skipDay(target, today))
+      }
+      setError(null)
+      await loadPlans()
+    } catch (err) {
+      setError(postpone ? 'Failed to postpone plan' : 'Failed to skip plan')
+      console.error('Error rescheduling plan:', err)
+    }
+  }
+
+  if (plans.length === 0) return null
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 border-b border-gray-200 dark:border-gray-700 pb-3 mb-4">
+        Today&apos;s plan
+      </h2>
+      {error && (
+        <p className="mb-2 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+      <div className="space-y-2">
+        {plans.map((plan) => (
+          <div key={plan.id} className="flex items-center justify-between">
+            <div>
+              <p className="font-medium">
+                {plan.name}
+                {plan.rotation && (
+                  <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">Rotation {plan.rotation}</span>
+                )}
+              </p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {plan.exercises.map(e => e.name).join(', ')}
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => handleReschedule(plan, false)}
+                className="px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600"
+              >
+                Skip
+              </button>
+              <button
+                onClick={() => handleReschedule(plan, true)}
+                title="Move to tomorrow"
+                className="px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600"
+              >
+                Postpone
+              </button>
+              <button
+                onClick={() => onStartPlan(plan)}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                Start
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
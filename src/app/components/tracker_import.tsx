@@ -0,0 +1,298 @@
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import { Exercise } from '../lib/indexdb_handler'
+import { ExerciseStorage } from '../lib/db_store'
+import { useAppConfig } from '../lib/config_store'
+import { withPersonalRecordsMuted } from '../lib/pr_events'
+import { defaultCountFromSets } from '../lib/exercise_utils'
+import { loadAliases, saveAliases, ExerciseAliases } from '../lib/alias_store'
+import {
+  parseTrackerCSV, listTrackerExercises, suggestAlias, buildTrackerRecords, trackerDateRange,
+  TRACKER_NAMES, TrackerExport, TrackerExercise, TrackerImportPlan,
+} from '../lib/tracker_import'
+
+interface TrackerImportProps {
+  db: ExerciseStorage
+  onComplete: (message: string) => void
+  onCancel: () => void
+}
+
+export default function TrackerImport({ db, onComplete, onCancel }: TrackerImportProps) {
+  const { config } = useAppConfig()
+  const [step, setStep] = useState<'file' | 'exercises' | 'preview'>('file')
+  const [trackerExport, setTrackerExport] = useState<TrackerExport | null>(null)
+  const [sourceExercises, setSourceExercises] = useState<TrackerExercise[]>([])
+  const [aliases, setAliases] = useState<ExerciseAliases>({})
+  const [types, setTypes] = useState<Record<string, Exercise['type']>>({})
+  const [defaultUnit, setDefaultUnit] = useState<'kg' | 'lbs'>(config.weightUnit)
+  const [exercises, setExercises] = useState<Exercise[]>([])
+  const [plan, setPlan] = useState<TrackerImportPlan | null>(null)
+  const [error, setError] = useState('')
+  const [isWorking, setIsWorking] = useState(false)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    const loadExercises = async () => {
+      try {
+        setExercises(await db.getAllExercises())
+      } catch (err) {
+        console.error('Error loading exercises:', err)
+      }
+    }
+    loadExercises()
+  }, [db])
+
+  const findExercise = (name: string) => exercises.find(e => e.name === name)
+
+  // Exercises that don't exist yet, keyed by their name here
+  const newExerciseNames = () => Array.from(new Set(
+    sourceExercises.map(e => aliases[e.sourceName] || e.sourceName).filter(name => !findExercise(name))
+  ))
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      setError('')
+      const parsed = parseTrackerCSV(await file.text())
+      if (parsed.sets.length === 0) {
+        setError('The file has no sets')
+        return
+      }
+
+      const listed = listTrackerExercises(parsed.sets)
+      const saved = loadAliases()
+      setTrackerExport(parsed)
+      setSourceExercises(listed)
+      setAliases(Object.fromEntries(listed.map(({ sourceName }) =>
+        [sourceName, saved[sourceName] || suggestAlias(sourceName, exercises)]
+      )))
+      setTypes(Object.fromEntries(listed.map(({ sourceName, type }) => [sourceName, type])))
+      setStep('exercises')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the file')
+      console.error('Error reading export:', err)
+    }
+  }
+
+  const handlePreview = async () => {
+    if (!trackerExport) return
+    if (sourceExercises.some(e => !aliases[e.sourceName]?.trim())) {
+      setError('Every exercise needs a name')
+      return
+    }
+
+    try {
+      setIsWorking(true)
+      setError('')
+      const range = trackerDateRange(trackerExport.sets)
+      const existing = range ? await db.getRecordsByDateRange(range[0], range[1]) : []
+      const trimmed = Object.fromEntries(Object.entries(aliases).map(([source, name]) => [source, name.trim()]))
+      setAliases(trimmed)
+      setPlan(buildTrackerRecords(trackerExport.sets, trimmed, defaultUnit, existing))
+      setStep('preview')
+    } catch (err) {
+      setError('Failed to check existing records')
+      console.error('Error building import:', err)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!plan) return
+
+    try {
+      setIsWorking(true)
+      setError('')
+      saveAliases({ ...loadAliases(), ...aliases })
+
+      const created = newExerciseNames()
+      for (const name of created) {
+        // Type of the first source exercise logged under this name
+        const source = sourceExercises.find(e => aliases[e.sourceName] === name)
+        const type = source ? types[source.sourceName] : 'strength'
+        await db.addExercise({
+          name,
+          type,
+          defaultCount: defaultCountFromSets(type, plan.records.find(r => r.exerciseName === name)?.sets || []),
+          instruction: '',
+        })
+      }
+
+      await withPersonalRecordsMuted(async () => {
+        for (const record of plan.records) {
+          await db.addRecord(record)
+        }
+      })
+
+      onComplete(`Imported ${plan.records.length} records from ${plan.workouts} workouts` +
+        (created.length > 0 ? `, created ${created.length} exercises` : '') +
+        (plan.duplicates > 0 ? `, skipped ${plan.duplicates} already imported` : ''))
+    } catch (err) {
+      setError('Failed to import workouts')
+      console.error('Error importing workouts:', err)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const exerciseOptions = exercises.map(e => e.name)
+
+  return (
+    <div className="fixed inset-0 bg-gray-600/80 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-lg max-h-full overflow-y-auto">
+        <h2 className="text-xl font-semibold mb-4">
+          Import from {trackerExport ? TRACKER_NAMES[trackerExport.format] : 'Strong / Hevy'}
+        </h2>
+
+        {step === 'file' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Choose the CSV file exported from Strong (Settings → Export Data) or Hevy
+              (Settings → Export &amp; Import Data). Workouts already imported are skipped.
+            </p>
+            <button
+              type="button"
+              onClick={() => fileInput.current?.click()}
+              className="px-4 py-2 text-sm font-medium text-blue-700 dark:text-blue-300 bg-blue-100 dark:bg-blue-900 rounded-md hover:bg-blue-200 dark:hover:bg-blue-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              Choose File
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="text/csv,.csv"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </div>
+        )}
+
+        {step === 'exercises' && trackerExport && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {trackerExport.sets.length} sets found
+              {trackerExport.skippedRows > 0 && ` (${trackerExport.skippedRows} rows skipped)`}.
+              Choose the exercise each name is logged under. Names you change are remembered for the next import.
+            </p>
+
+            <datalist id="tracker-exercise-names">
+              {exerciseOptions.map(name => <option key={name} value={name} />)}
+            </datalist>
+
+            <div className="space-y-3">
+              {sourceExercises.map(({ sourceName, setCount }) => {
+                const target = aliases[sourceName] || ''
+                const isNew = !findExercise(target.trim())
+                return (
+                  <div key={sourceName} className="border border-gray-200 dark:border-gray-700 rounded-md p-2">
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="font-medium truncate">{sourceName}</span>
+                      <span className="text-gray-500 dark:text-gray-400 shrink-0 ml-2">{setCount} sets</span>
+                    </div>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        list="tracker-exercise-names"
+                        value={target}
+                        onChange={(e) => setAliases({ ...aliases, [sourceName]: e.target.value })}
+                        className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      {isNew && (
+                        <select
+                          value={types[sourceName]}
+                          onChange={(e) => setTypes({ ...types, [sourceName]: e.target.value as Exercise['type'] })}
+                          className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="strength">New strength</option>
+                          <option value="cardio">New cardio</option>
+                          <option value="core">New core</option>
+                        </select>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+
+            {trackerExport.sets.some(set => set.weight && !set.unit) && (
+              <div className="flex items-center gap-2">
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Weights in the export are in</label>
+                <select
+                  value={defaultUnit}
+                  onChange={(e) => setDefaultUnit(e.target.value as 'kg' | 'lbs')}
+                  className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="lbs">lbs</option>
+                  <option value="kg">kg</option>
+                </select>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && plan && (
+          <div className="space-y-2 text-sm text-gray-600 dark:text-gray-400">
+            <p>Dry run, nothing has been saved yet:</p>
+            <ul className="list-disc pl-5">
+              <li>{plan.records.length} records from {plan.workouts} workouts will be added</li>
+              {plan.duplicates > 0 && <li>{plan.duplicates} records are already in the app and will be skipped</li>}
+              {newExerciseNames().length > 0 && (
+                <li>New exercises: {newExerciseNames().join(', ')}</li>
+              )}
+            </ul>
+          </div>
+        )}
+
+        {error && (
+          <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          {step !== 'file' && (
+            <button
+              type="button"
+              onClick={() => setStep(step === 'preview' ? 'exercises' : 'file')}
+              disabled={isWorking}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              Back
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isWorking}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          {step === 'exercises' && (
+            <button
+              type="button"
+              onClick={handlePreview}
+              disabled={isWorking}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Preview
+            </button>
+          )}
+          {step === 'preview' && (
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isWorking || plan?.records.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isWorking ? 'Importing...' : 'Import'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
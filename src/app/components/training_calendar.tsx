@@ -0,0 +1,209 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { format, addMonths, subMonths, startOfMonth, isSameMonth } from 'date-fns'
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline'
+import { Plan } from '../lib/indexdb_handler'
+import { useExerciseDB } from '../lib/db_store'
+import { useAppConfig } from '../lib/config_store'
+import {
+  HEATMAP_METRICS, HeatmapMetric, DaySummary, DayStatus, summarizeDays, heatLevel, monthDays, yearWeeks, dayStatus,
+} from '../lib/calendar_utils'
+
+interface TrainingCalendarProps {
+  onSelectDate: (date: string) => void
+}
+
+const HEAT_CLASSES = [
+  'bg-gray-100 dark:bg-gray-700',
+  'bg-blue-200 dark:bg-blue-900',
+  'bg-blue-400 dark:bg-blue-700',
+  'bg-blue-600 text-white dark:bg-blue-500',
+  'bg-blue-800 text-white dark:bg-blue-300 dark:text-gray-900',
+]
+
+const STATUS_CLASSES: Record<DayStatus, string> = {
+  done: '',
+  missed: 'ring-2 ring-inset ring-red-400',
+  planned: 'ring-2 ring-inset ring-blue-300 dark:ring-blue-700',
+  rest: '',
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+// Month calendar and year heatmap of training days, with scheduled plan days
+// marked so missed sessions stand out
+export default function TrainingCalendar({ onSelectDate }: TrainingCalendarProps) {
+  const db = useExerciseDB()
+  const { config } = useAppConfig()
+  const [view, setView] = useState<'month' | 'year'>('month')
+  const [month, setMonth] = useState(startOfMonth(new Date()))
+  const [metric, setMetric] = useState<HeatmapMetric>('sessions')
+  const [days, setDays] = useState<Map<string, DaySummary>>(new Map())
+  const [plans, setPlans] = useState<Plan[]>([])
+  const [error, setError] = useState('')
+
+  const today = new Date()
+  const weeks = view === 'year' ? yearWeeks(today) : []
+  const shownDays = view === 'year' ? weeks.flat() : monthDays(month)
+  const startDate = format(shownDays[0], 'yyyy-MM-dd')
+  const endDate = format(shownDays[shownDays.length - 1], 'yyyy-MM-dd')
+
+  useEffect(() => {
+    const loadDays = async () => {
+      try {
+        const records = await db.getRecordsByDateRange(startDate, endDate)
+        setDays(summarizeDays(records, config.weightUnit))
+        setPlans(await db.getAllPlans())
+        setError('')
+      } catch (err) {
+        setError('Failed to load training days')
+        console.error('Error loading training days:', err)
+      }
+    }
+    loadDays()
+  }, [db, startDate, endDate, config.weightUnit])
+
+  const valueOf = (summary?: DaySummary) => summary ? summary[metric] : 0
+  const max = Math.max(0, ...shownDays.map(date => valueOf(days.get(format(date, 'yyyy-MM-dd')))))
+
+  const describe = (date: Date, summary: DaySummary | undefined, status: DayStatus) => {
+    const parts = [format(date, 'EEE, MMM d, yyyy')]
+    if (summary) {
+      parts.push(`${summary.sessions} exercise${summary.sessions === 1 ? '' : 's'}`)
+      if (summary.volume > 0) parts.push(`${Math.round(summary.volume)}${config.weightUnit} volume`)
+    }
+    if (status === 'missed') parts.push('Missed plan')
+    if (status === 'planned') parts.push('Planned')
+    return parts.join(' · ')
+  }
+
+  const dayProps = (date: Date) => {
+    const dateStr = format(date, 'yyyy-MM-dd')
+    const summary = days.get(dateStr)
+    const status = dayStatus(date, summary, plans, today)
+    return {
+      onClick: () => onSelectDate(dateStr),
+      title: describe(date, summary, status),
+      disabled: dateStr > format(today, 'yyyy-MM-dd'),
+      className: `${HEAT_CLASSES[heatLevel(valueOf(summary), max)]} ${STATUS_CLASSES[status]}`,
+    }
+  }
+
+  const toggleClass = (active: boolean) => `flex-1 py-1 text-xs font-medium rounded-md border transition-colors ${
+    active
+      ? 'border-blue-500 bg-blue-500 text-white'
+      : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'
+  }`
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+      <div className="flex gap-4 mb-4">
+        <div className="flex flex-1 gap-1">
+          <button onClick={() => setView('month')} className={toggleClass(view === 'month')}>Month</button>
+          <button onClick={() => setView('year')} className={toggleClass(view === 'year')}>Year</button>
+        </div>
+        <div className="flex flex-1 gap-1">
+          {HEATMAP_METRICS.map(option => (
+            <button
+              key={option.metric}
+              onClick={() => setMetric(option.metric)}
+              className={toggleClass(metric === option.metric)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {view === 'month' ? (
+        <>
+          <div className="flex items-center justify-between mb-3">
+            <button
+              onClick={() => setMonth(subMonths(month, 1))}
+              className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700"
+              aria-label="Previous month"
+            >
+              <ChevronLeftIcon className="h-5 w-5" />
+            </button>
+            <h2 className="text-lg font-semibold">{format(month, 'MMMM yyyy')}</h2>
+            <button
+              onClick={() => setMonth(addMonths(month, 1))}
+              disabled={isSameMonth(month, today)}
+              className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+              aria-label="Next month"
+            >
+              <ChevronRightIcon className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-7 gap-1 text-center">
+            {WEEKDAYS.map(day => (
+              <span key={day} className="text-xs font-medium text-gray-500 dark:text-gray-400">{day}</span>
+            ))}
+            {shownDays.map(date => {
+              const { className, ...props } = dayProps(date)
+              return (
+                <button
+                  key={date.toISOString()}
+                  {...props}
+                  className={`aspect-square rounded-md text-sm disabled:cursor-default ${className} ${
+                    isSameMonth(date, month) ? '' : 'opacity-40'
+                  } ${format(date, 'yyyy-MM-dd') === format(today, 'yyyy-MM-dd') ? 'font-bold underline' : ''}`}
+                >
+                  {format(date, 'd')}
+                </button>
+              )
+            })}
+          </div>
+        </>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className="flex gap-[3px] w-max">
+            {weeks.map(week => (
+              <div key={week[0].toISOString()} className="flex flex-col gap-[3px]">
+                {week.map(date => {
+                  const { className, ...props } = dayProps(date)
+                  return (
+                    <button
+                      key={date.toISOString()}
+                      {...props}
+                      className={`w-3 h-3 rounded-sm disabled:invisible ${className}`}
+                    />
+                  )
+                })}
+              </div>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            {format(weeks[0][0], 'MMM yyyy')} – {format(today, 'MMM yyyy')}
+          </p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 mt-4 text-xs text-gray-500 dark:text-gray-400">
+        <div className="flex items-center gap-1">
+          <span>Less</span>
+          {HEAT_CLASSES.map(heatClass => (
+            <span key={heatClass} className={`w-3 h-3 rounded-sm ${heatClass}`} />
+          ))}
+          <span>More</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <span className={`w-3 h-3 rounded-sm ${STATUS_CLASSES.missed}`} />
+          <span>Missed plan</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <span className={`w-3 h-3 rounded-sm ${STATUS_CLASSES.planned}`} />
+          <span>Planned</span>
+        </div>
+      </div>
+    </div>
+  )
+}
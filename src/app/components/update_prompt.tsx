@@ -0,0 +1,80 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { SKIP_WAITING, SERVICE_WORKER_URL, SERVICE_WORKER_SCOPE } from '../lib/service_worker'
+
+// Registers the service worker that makes the app work offline, and offers to
+// reload when a newly deployed build has been downloaded in the background
+export default function UpdatePrompt() {
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null)
+
+  useEffect(() => {
+    // In development the build changes on every edit, so caching it only gets in the way
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return
+
+    let registration: ServiceWorkerRegistration | null = null
+
+    const register = async () => {
+      try {
+        registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: SERVICE_WORKER_SCOPE })
+
+        // Without a controller this is the first install, not an update
+        if (registration.waiting && navigator.serviceWorker.controller) {
+          setWaiting(registration.waiting)
+        }
+
+        registration.addEventListener('updatefound', () => {
+          const worker = registration?.installing
+          worker?.addEventListener('statechange', () => {
+            if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+              setWaiting(worker)
+            }
+          })
+        })
+      } catch (error) {
+        console.error('Error registering service worker:', error)
+      }
+    }
+
+    // Look for a new build whenever the app comes back to the foreground
+    const checkForUpdate = () => {
+      if (document.visibilityState === 'visible') {
+        registration?.update().catch(error => console.error('Error checking for updates:', error))
+      }
+    }
+
+    register()
+    document.addEventListener('visibilitychange', checkForUpdate)
+    return () => document.removeEventListener('visibilitychange', checkForUpdate)
+  }, [])
+
+  const handleUpdate = () => {
+    if (!waiting) return
+    navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true })
+    waiting.postMessage({ type: SKIP_WAITING })
+  }
+
+  if (!waiting) return null
+
+  return (
+    <div className="fixed top-4 inset-x-4 flex justify-center z-50 pointer-events-none">
+      <div className="bg-white dark:bg-gray-800 border border-blue-200 dark:border-blue-800 rounded-lg shadow-lg p-4 w-full max-w-md pointer-events-auto flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-700 dark:text-gray-300">A new version of the app is available.</p>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setWaiting(null)}
+            className="px-3 py-1 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600"
+          >
+            Later
+          </button>
+          <button
+            onClick={handleUpdate}
+            className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            Reload
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,19 +1,24 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { format, startOfWeek, addDays } from 'date-fns'
-import { ExerciseDB } from '../lib/indexdb_handler'
+import { format, startOfWeek, addDays, parseISO } from 'date-fns'
+import { useExerciseDB } from '../lib/db_store'
 
-export default function WeekTracker() {
+interface WeekTrackerProps {
+    onSelectDate?: (date: string) => void
+}
+
+export default function WeekTracker({ onSelectDate }: WeekTrackerProps) {
+    const db = useExerciseDB()
     const [datesWithRecords, setDatesWithRecords] = useState<Set<string>>(new Set())
     const today = new Date()
     const startOfCurrentWeek = startOfWeek(today, { weekStartsOn: 1 }) // Start from Monday
+    const weekStart = format(startOfCurrentWeek, 'yyyy-MM-dd')
 
     useEffect(() => {
         const fetchWeekRecords = async () => {
-            const startDate = format(startOfCurrentWeek, 'yyyy-MM-dd')
-            const endDate = format(addDays(startOfCurrentWeek, 6), 'yyyy-MM-dd')
-            const records = await ExerciseDB.getRecordsByDateRange(startDate, endDate)
+            const endDate = format(addDays(parseISO(weekStart), 6), 'yyyy-MM-dd')
+            const records = await db.getRecordsByDateRange(weekStart, endDate)
 
             // Create a Set of dates that have records
             const datesSet = new Set(records.map(record => record.date))
@@ -21,7 +26,7 @@ export default function WeekTracker() {
         }
 
         fetchWeekRecords()
-    }, [])
+    }, [db, weekStart])
 
     // Generate array of dates for the week
     const weekDates = Array.from({ length: 7 }, (_, i) => {
@@ -42,11 +47,12 @@ export default function WeekTracker() {
             {weekDates.map((day, index) => (
                 <div
                     key={index}
+                    onClick={() => onSelectDate?.(day.dateStr)}
                     className={`
-            relative w-12 h-12 flex flex-col items-center justify-center rounded-lg
+            relative w-12 h-12 flex flex-col items-center justify-center rounded-lg ${onSelectDate ? 'cursor-pointer' : ''}
             ${day.isToday
-                            ? 'bg-black text-white'
-                            : 'bg-gray-50 text-gray-600'
+                            ? 'bg-black text-white dark:bg-blue-600'
+                            : 'bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-400'
                         }
           `}
                 >
@@ -0,0 +1,361 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { format } from 'date-fns'
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline'
+import { RecordSet } from '../lib/indexdb_handler'
+import { useExerciseDB } from '../lib/db_store'
+import { useAppConfig } from '../lib/config_store'
+import { renderTypeBadge } from '../lib/exercise_utils'
+import { summarizeSets, formatWeight } from '../lib/record_utils'
+import { startRestTimer, restSecondsFor } from '../lib/rest_timer'
+import { WorkoutSession as Session, SessionExercise, formatTarget } from '../lib/session_store'
+
+interface WorkoutSessionProps {
+  session: Session
+  onChange: (session: Session) => void
+  onClose: () => void
+}
+
+export default function WorkoutSession({ session, onChange, onClose }: WorkoutSessionProps) {
+  const db = useExerciseDB()
+  const { config } = useAppConfig()
+  const [count, setCount] = useState('')
+  const [weight, setWeight] = useState('')
+  const [unit, setUnit] = useState<'kg' | 'lbs'>(config.weightUnit)
+  const [rpe, setRpe] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const current: SessionExercise | undefined = session.exercises[session.currentIndex]
+
+  // Prefill the next set from the target and the previous set of this exercise,
+  // or from the progression suggestion for the first set. The effect watches plain
+  // values rather than `current`, which is a new object every time the session changes.
+  const lastSet = current?.sets[current.sets.length - 1]
+  const setsLogged = current?.sets.length
+  const prefillCount = current && current.targetCount > 0 ? current.targetCount.toString() : ''
+  const prefillWeight = lastSet?.weight?.toString() || current?.suggestion?.weight.toString() || ''
+  const prefillUnit = lastSet?.unit || current?.suggestion?.unit || config.weightUnit
+
+  useEffect(() => {
+    if (setsLogged === undefined) return
+    setCount(prefillCount)
+    setWeight(prefillWeight)
+    setUnit(prefillUnit)
+    setRpe('')
+  }, [session.currentIndex, setsLogged, prefillCount, prefillWeight, prefillUnit])
+
+  const updateExercise = (index: number, exercise: SessionExercise, nextIndex = session.currentIndex) => {
+    onChange({
+      ...session,
+      currentIndex: nextIndex,
+      exercises: session.exercises.map((e, i) => i === index ? exercise : e),
+    })
+  }
+
+  const goTo = (index: number) => {
+    if (index < 0 || index >= session.exercises.length) return
+    onChange({ ...session, currentIndex: index })
+  }
+
+  const handleLogSet = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!current) return
+
+    const countValue = parseInt(count)
+    if (isNaN(countValue) || countValue <= 0) {
+      setError('Please enter a valid count')
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError('')
+      const set: RecordSet = {
+        count: countValue,
+        weight: current.type === 'strength' && weight ? parseFloat(weight) : undefined,
+        unit,
+        rpe: rpe ? parseFloat(rpe) : null,
+        warmup: false,
+      }
+      const sets = [...current.sets, set]
+      const recordId = await saveSets(current, sets)
+
+      const updated: SessionExercise = { ...current, recordId, sets }
+
+      // Move on once the planned sets are done
+      const done = updated.sets.length >= updated.targetSets
+      const hasNext = session.currentIndex < session.exercises.length - 1
+      updateExercise(session.currentIndex, updated, done && hasNext ? session.currentIndex + 1 : session.currentIndex)
+
+      // Rest before the next set, unless that was the last set of the workout
+      if (current.type === 'strength' && (!done || hasNext)) {
+        startRestTimer(current.name, restSecondsFor(current, config.restSeconds))
+      }
+    } catch (err) {
+      setError('Failed to save set')
+      console.error('Error saving set:', err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // All sets of an exercise go into one record, created with the first set
+  const saveSets = async (exercise: SessionExercise, sets: RecordSet[]): Promise<number> => {
+    if (exercise.recordId) {
+      await db.updateRecord(exercise.recordId, { sets, ...summarizeSets(sets) })
+      return exercise.recordId
+    }
+
+    const now = new Date()
+    return db.addRecord({
+      exerciseName: exercise.name,
+      sets,
+      ...summarizeSets(sets),
+      note: session.planName,
+      date: format(now, 'yyyy-MM-dd'),
+      time: now.toTimeString().split(' ')[0],
+    })
+  }
+
+  const handleUndoSet = async () => {
+    if (!current || current.sets.length === 0) return
+    const sets = current.sets.slice(0, -1)
+
+    try {
+      if (sets.length > 0) {
+        await saveSets(current, sets)
+        updateExercise(session.currentIndex, { ...current, sets })
+      } else {
+        await db.deleteRecord(current.recordId)
+        updateExercise(session.currentIndex, { ...current, recordId: undefined, sets })
+      }
+    } catch (err) {
+      setError('Failed to remove set')
+      console.error('Error removing set:', err)
+    }
+  }
+
+  const handleFinish = () => {
+    const incomplete = session.exercises.some(e => e.sets.length < e.targetSets)
+    if (incomplete && !window.confirm('Some planned sets are not logged yet. End the workout anyway?')) {
+      return
+    }
+    onChange({ ...session, finishedAt: new Date().toISOString() })
+  }
+
+  const completedSets = session.exercises.reduce((sum, e) => sum + Math.min(e.sets.length, e.targetSets), 0)
+  const plannedSets = session.exercises.reduce((sum, e) => sum + e.targetSets, 0)
+
+  if (session.finishedAt || !current) {
+    return (
+      <div className="fixed inset-0 bg-gray-600/80 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md max-h-full overflow-y-auto">
+          <h2 className="text-xl font-semibold mb-1">Workout Summary</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            {session.planName} · {completedSets} of {plannedSets} planned sets completed
+          </p>
+
+          {session.exercises.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">None of this plan&apos;s exercises exist anymore.</p>
+          ) : (
+            <div className="space-y-2">
+              {session.exercises.map((exercise, index) => {
+                const total = exercise.sets.reduce((sum, set) => sum + set.count, 0)
+                const complete = exercise.sets.length >= exercise.targetSets
+                return (
+                  <div key={`${index}-${exercise.name}`} className="flex items-center justify-between p-3 border rounded-md">
+                    <div>
+                      <p className="font-medium">{exercise.name}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">Planned: {formatTarget(exercise)}</p>
+                    </div>
+                    <div className="text-right text-sm">
+                      <p className={complete ? 'text-green-600 dark:text-green-400 font-medium' : 'text-yellow-600 dark:text-yellow-400 font-medium'}>
+                        {exercise.sets.length}/{exercise.targetSets} sets
+                      </p>
+                      <p className="text-gray-500 dark:text-gray-400">
+                        {total} {exercise.type === 'strength' ? 'reps' : 'sec'}
+                      </p>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+
+          <div className="flex justify-end mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600/80 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center mb-1">
+          <h2 className="text-xl font-semibold">{session.planName}</h2>
+          <button
+            type="button"
+            onClick={handleFinish}
+            className="px-3 py-1 text-sm font-medium text-red-700 dark:text-red-300 bg-red-100 dark:bg-red-900 rounded-md hover:bg-red-200 dark:hover:bg-red-800 focus:outline-none focus:ring-2 focus:ring-red-500"
+          >
+            End Workout
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Exercise {session.currentIndex + 1} of {session.exercises.length} · {completedSets}/{plannedSets} sets
+        </p>
+
+        <div className="flex items-center justify-between mb-4">
+          <button
+            type="button"
+            onClick={() => goTo(session.currentIndex - 1)}
+            disabled={session.currentIndex === 0}
+            className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+            aria-label="Previous exercise"
+          >
+            <ChevronLeftIcon className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+          </button>
+          <div className="text-center">
+            <div className="flex items-center justify-center space-x-2">
+              <p className="text-lg font-medium">{current.name}</p>
+              {renderTypeBadge(current.type)}
+            </div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Set {Math.min(current.sets.length + 1, current.targetSets)} of {current.targetSets} · Target {formatTarget(current)}
+            </p>
+            {current.suggestion && (
+              <>
+                <p className={`text-sm ${current.suggestion.deload ? 'text-yellow-600 dark:text-yellow-400' : 'text-blue-600 dark:text-blue-400'}`}>
+                  Suggested {current.suggestion.reps} reps @ {formatWeight(current.suggestion.weight, current.suggestion.unit, config.weightUnit)}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{current.suggestion.reason}</p>
+              </>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={() => goTo(session.currentIndex + 1)}
+            disabled={session.currentIndex === session.exercises.length - 1}
+            className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+            aria-label="Next exercise"
+          >
+            <ChevronRightIcon className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+          </button>
+        </div>
+
+        {current.sets.length > 0 && (
+          <div className="mb-4 space-y-1">
+            {current.sets.map((set, index) => (
+              <div key={index} className="flex justify-between text-sm text-gray-600 dark:text-gray-400 px-3 py-1 bg-gray-50 dark:bg-gray-900 rounded">
+                <span>Set {index + 1}</span>
+                <span>
+                  {set.count} {current.type === 'strength' ? 'reps' : 'sec'}
+                  {set.weight ? ` @ ${formatWeight(set.weight, set.unit || 'lbs', config.weightUnit)}` : null}
+                  {set.rpe ? ` RPE: ${set.rpe}` : null}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleLogSet}>
+          {current.type === 'strength' && (
+            <div className="mb-4">
+              <label htmlFor="session-weight" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Weight
+              </label>
+              <div className="flex space-x-2">
+                <input
+                  type="number"
+                  id="session-weight"
+                  value={weight}
+                  onChange={(e) => setWeight(e.target.value)}
+                  className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="Enter weight"
+                  step="5"
+                />
+                <select
+                  value={unit}
+                  onChange={(e) => setUnit(e.target.value as 'kg' | 'lbs')}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="lbs">lbs</option>
+                  <option value="kg">kg</option>
+                </select>
+              </div>
+            </div>
+          )}
+
+          <div className="flex space-x-2 mb-4">
+            <div className="flex-1">
+              <label htmlFor="session-count" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {current.type === 'strength' ? 'Reps' : 'Duration (seconds)'}
+              </label>
+              <input
+                type="number"
+                id="session-count"
+                value={count}
+                onChange={(e) => setCount(e.target.value)}
+                className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                required
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor="session-rpe" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                RPE (optional)
+              </label>
+              <input
+                type="number"
+                id="session-rpe"
+                min="1"
+                max="10"
+                step="0.5"
+                value={rpe}
+                onChange={(e) => setRpe(e.target.value)}
+                className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2 mt-6">
+            <button
+              type="button"
+              onClick={handleUndoSet}
+              disabled={current.sets.length === 0}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Undo Last Set
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !count}
+              className={`px-4 py-2 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                saving || !count
+                  ? 'bg-blue-300 dark:bg-blue-900 cursor-not-allowed'
+                  : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {saving ? 'Saving...' : 'Log Set'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
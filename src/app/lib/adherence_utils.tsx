@@ -0,0 +1,199 @@
+import { format, startOfWeek, subWeeks, subDays, addDays, eachDayOfInterval } from 'date-fns';
+import { ExerciseRecord, Plan } from './indexdb_handler';
+import { ExerciseStorage } from './db_store';
+import { isPlanScheduled, rotationMembers } from './schedule_utils';
+
+// Plan adherence: scheduled sessions against the ones actually done, streaks
+// and missed days.
+
+// When a scheduled day counts as done, by how many of the plan's exercises were logged
+export interface CompletionRule {
+  kind: 'atLeast' | 'percent' | 'all';
+  value: number; // Exercises for 'atLeast', a percentage for 'percent'; unused for 'all'
+}
+
+export const COMPLETION_KINDS: { kind: CompletionRule['kind'], label: string }[] = [
+  { kind: 'atLeast', label: 'At least N exercises' },
+  { kind: 'percent', label: 'At least N% of exercises' },
+  { kind: 'all', label: 'Every exercise' },
+];
+
+export const DEFAULT_COMPLETION_RULE: CompletionRule = { kind: 'atLeast', value: 1 };
+
+// Weeks of history shown in the weekly breakdown
+export const ADHERENCE_WEEKS = 8;
+
+// How far back to look for the last session of a rotation
+const ROTATION_LOOKBACK_DAYS = 90;
+
+export interface WeekAdherence {
+  weekStart: string; // Monday, yyyy-MM-dd
+  scheduled: number;
+  completed: number;
+}
+
+export interface PlanAdherence {
+  scheduled: number; // Scheduled days so far, leaving out today until it's done
+  completed: number;
+  currentStreak: number; // Scheduled sessions done in a row, up to the latest
+  longestStreak: number;
+  missed: string[]; // Newest first
+  weeks: WeekAdherence[]; // Oldest first, ending with this week
+}
+
+export function formatCompletionRule(rule: CompletionRule): string {
+  switch (rule.kind) {
+    case 'atLeast':
+      return rule.value === 1 ? 'any exercise logged' : `${rule.value}+ exercises logged`;
+    case 'percent':
+      return `${rule.value}% of exercises logged`;
+    case 'all':
+      return 'every exercise logged';
+  }
+}
+
+// Names of the exercises logged on each date
+export function exercisesByDate(records: ExerciseRecord[]): Map<string, Set<string>> {
+  const byDate = new Map<string, Set<string>>();
+  for (const record of records) {
+    const names = byDate.get(record.date) || new Set<string>();
+    names.add(record.exerciseName);
+    byDate.set(record.date, names);
+  }
+  return byDate;
+}
+
+export function isSessionComplete(plan: Plan, logged: Set<string> | undefined, rule: CompletionRule): boolean {
+  const total = plan.exercises.length;
+  const done = plan.exercises.filter(exercise => logged?.has(exercise.name)).length;
+  if (total === 0) return false;
+
+  switch (rule.kind) {
+    case 'atLeast':
+      return done >= Math.min(Math.max(1, rule.value), total);
+    case 'percent':
+      return done > 0 && done / total * 100 >= rule.value;
+    case 'all':
+      return done === total;
+  }
+}
+
+// Plans in a rotation take turns, so a day counts as done if any of `members` was
+export function computeAdherence(
+  plan: Plan,
+  logged: Map<string, Set<string>>,
+  rule: CompletionRule,
+  today = new Date(),
+  members: Plan[] = [plan],
+): PlanAdherence {
+  const todayStr = format(today, 'yyyy-MM-dd');
+  const firstWeek = startOfWeek(subWeeks(today, ADHERENCE_WEEKS - 1), { weekStartsOn: 1 });
+  const start = plan.createdAt ? new Date(`${plan.createdAt.slice(0, 10)}T00:00:00`) : firstWeek;
+
+  const weeks: WeekAdherence[] = Array.from({ length: ADHERENCE_WEEKS }, (_, i) => ({
+    weekStart: format(addDays(firstWeek, i * 7), 'yyyy-MM-dd'),
+    scheduled: 0,
+    completed: 0,
+  }));
+
+  const adherence: PlanAdherence = { scheduled: 0, completed: 0, currentStreak: 0, longestStreak: 0, missed: [], weeks };
+  const days = start <= today ? eachDayOfInterval({ start, end: today }) : [];
+
+  for (const day of days) {
+    if (!isPlanScheduled(plan, day)) continue;
+    const date = format(day, 'yyyy-MM-dd');
+    const complete = members.some(member => isSessionComplete(member, logged.get(date), rule));
+    // Today isn't missed yet; it only counts once it's done
+    if (date === todayStr && !complete) continue;
+
+    adherence.scheduled++;
+    const weekStart = format(startOfWeek(day, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+    const week = weeks.find(w => w.weekStart === weekStart);
+    if (week) week.scheduled++;
+
+    if (complete) {
+      adherence.completed++;
+      adherence.currentStreak++;
+      adherence.longestStreak = Math.max(adherence.longestStreak, adherence.currentStreak);
+      if (week) week.completed++;
+    } else {
+      adherence.currentStreak = 0;
+      adherence.missed.unshift(date);
+    }
+  }
+
+  return adherence;
+}
+
+// Adherence of each plan, keyed by plan id
+export async function loadAdherence(
+  db: ExerciseStorage,
+  plans: Plan[],
+  rule: CompletionRule,
+): Promise<Map<number, PlanAdherence>> {
+  const result = new Map<number, PlanAdherence>();
+  if (plans.length === 0) return result;
+
+  const today = new Date();
+  const earliest = plans
+    .map(plan => plan.createdAt?.slice(0, 10) || '')
+    .reduce((min, date) => date < min ? date : min, format(today, 'yyyy-MM-dd'));
+  const logged = exercisesByDate(await db.getRecordsByDateRange(earliest || '0000-01-01', format(today, 'yyyy-MM-dd')));
+
+  for (const plan of plans) {
+    if (plan.id !== undefined) {
+      const members = plan.rotation ? rotationMembers(plans, plan.rotation) : [plan];
+      result.set(plan.id, computeAdherence(plan, logged, rule, today, members));
+    }
+  }
+  return result;
+}
+
+// Plan due next in each rotation, by rotation name: the one after the plan of
+// the latest session done before today. Rotations advance on completion, so a
+// missed day leaves the same plan due. When plans share exercises, several can
+// count as done on one day; the one with the most exercises logged wins, then
+// the one with the largest share of its exercises logged.
+export async function loadRotations(
+  db: ExerciseStorage,
+  plans: Plan[],
+  rule: CompletionRule,
+  today = new Date(),
+): Promise<Map<string, number>> {
+  const next = new Map<string, number>();
+  const names = Array.from(new Set(plans.map(plan => plan.rotation).filter((name): name is string => !!name)));
+  if (names.length === 0) return next;
+
+  const logged = exercisesByDate(await db.getRecordsByDateRange(
+    format(subDays(today, ROTATION_LOOKBACK_DAYS), 'yyyy-MM-dd'),
+    format(subDays(today, 1), 'yyyy-MM-dd'),
+  ));
+  const dates = Array.from(logged.keys()).sort().reverse();
+
+  for (const name of names) {
+    const members = rotationMembers(plans, name);
+    let last = -1;
+    for (const date of dates) {
+      const exercises = logged.get(date);
+      let best = { matched: 0, share: 0 };
+      members.forEach((member, index) => {
+        if (!isSessionComplete(member, exercises, rule)) return;
+        const matched = member.exercises.filter(exercise => exercises?.has(exercise.name)).length;
+        const share = matched / member.exercises.length;
+        if (matched > best.matched || (matched === best.matched && share >= best.share)) {
+          best = { matched, share };
+          last = index;
+        }
+      });
+      if (last !== -1) break;
+    }
+    const due = members[(last + 1) % members.length];
+    if (due.id !== undefined) next.set(name, due.id);
+  }
+  return next;
+}
+
+// Share of scheduled sessions done, or null before anything was scheduled
+export function adherenceRate(adherence: PlanAdherence): number | null {
+  return adherence.scheduled > 0 ? adherence.completed / adherence.scheduled : null;
+}
@@ -0,0 +1,22 @@
+'use client'
+
+// Exercise names used by other apps, mapped to the names used here
+export type ExerciseAliases = Record<string, string>
+
+const ALIAS_KEY = 'exercise_aliases'
+
+export function loadAliases(): ExerciseAliases {
+  const saved = localStorage.getItem(ALIAS_KEY)
+  if (!saved) return {}
+  try {
+    return JSON.parse(saved)
+  } catch (e) {
+    console.error('Failed to parse saved exercise aliases:', e)
+    localStorage.removeItem(ALIAS_KEY)
+    return {}
+  }
+}
+
+export function saveAliases(aliases: ExerciseAliases) {
+  localStorage.setItem(ALIAS_KEY, JSON.stringify(aliases))
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { ExerciseDB } from './indexdb_handler';
+import { parseBackup } from './backup_utils';
+
+const backup = (changes: Record<string, unknown> = {}) => JSON.stringify({
+  app: 'light_weight',
+  schemaVersion: ExerciseDB.dbVersion,
+  exportedAt: '2024-03-04T18:00:00.000Z',
+  exercises: [{ name: 'Squat', type: 'strength', defaultCount: '5', primaryMuscles: ['quads'] }],
+  records: [
+    { id: 1, exerciseName: 'Squat', date: '2024-03-04', sets: [{ count: 5, weight: 100, unit: 'kg' }] },
+    { id: 2, exerciseName: 'Squat', date: '2024-03-01', count: 20 },
+  ],
+  plans: [{ name: 'Legs', exercises: [], schedule: '0100000' }],
+  ...changes,
+});
+
+describe('parseBackup', () => {
+  it('accepts a valid backup, with or without programs', () => {
+    const parsed = parseBackup(backup());
+    expect(parsed.records).toHaveLength(2);
+    expect(parsed.programs).toBeUndefined();
+    expect(parseBackup(backup({ programs: [{ name: 'Block', startDate: '2024-03-04', weeks: [] }] })).programs).toHaveLength(1);
+  });
+
+  it('rejects files that are not backups', () => {
+    expect(() => parseBackup('{')).toThrow('not valid JSON');
+    expect(() => parseBackup(backup({ app: 'other' }))).toThrow('not a Light Weight backup');
+    expect(() => parseBackup(backup({ schemaVersion: undefined }))).toThrow('no schema version');
+    expect(() => parseBackup(backup({ plans: undefined }))).toThrow('missing its plans list');
+  });
+
+  it('rejects backups from a newer schema', () => {
+    expect(() => parseBackup(backup({ schemaVersion: ExerciseDB.dbVersion + 1 }))).toThrow('newer version');
+  });
+
+  it('names the first invalid entry', () => {
+    expect(() => parseBackup(backup({ exercises: [{ name: 'Squat', type: 'yoga', defaultCount: '5' }] })))
+      .toThrow('Exercise 1 is invalid');
+    expect(() => parseBackup(backup({ exercises: [{ name: 'Squat', type: 'strength', defaultCount: '5', primaryMuscles: ['tail'] }] })))
+      .toThrow('Exercise 1 is invalid');
+    expect(() => parseBackup(backup({ records: [{ exerciseName: 'Squat', date: '04/03/2024', count: 5 }] })))
+      .toThrow('Record 1 is invalid');
+    expect(() => parseBackup(backup({ records: [{ exerciseName: 'Squat', date: '2024-03-04', sets: [{ count: 5, unit: 'stone' }] }] })))
+      .toThrow('Record 1 is invalid');
+    expect(() => parseBackup(backup({ plans: [{ name: 'Legs', exercises: [] }] })))
+      .toThrow('Plan 1 is invalid');
+    expect(() => parseBackup(backup({ programs: [{ name: 'Block', startDate: 'soon', weeks: [] }] })))
+      .toThrow('Program 1 is invalid');
+  });
+});
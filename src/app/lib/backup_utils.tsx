@@ -0,0 +1,247 @@
+import { ExerciseDB, Exercise, ExerciseRecord, Plan, Program } from './indexdb_handler';
+import { ExerciseStorage } from './db_store';
+import { isMuscleGroup, isEquipment } from './muscle_utils';
+
+// Full backup of the database. The data keys match the IndexedDB store names.
+export interface BackupFile {
+  app: 'light_weight';
+  schemaVersion: number;
+  exportedAt: string;
+  exercises: Exercise[];
+  records: ExerciseRecord[];
+  plans: Plan[];
+  programs?: Program[]; // Missing from backups made before programs existed
+}
+
+// 'keep' and 'overwrite' merge into the existing data and differ in who wins
+// a conflict; 'replace' swaps everything for the backup in one go
+export type RestoreMode = 'keep' | 'overwrite' | 'replace';
+
+export interface RestoreCounts {
+  added: number;
+  skipped: number;
+  overwritten: number;
+}
+
+export interface RestoreReport {
+  exercises: RestoreCounts;
+  records: RestoreCounts;
+  plans: RestoreCounts;
+  programs: RestoreCounts;
+}
+
+const EXERCISE_TYPES: Exercise['type'][] = ['strength', 'cardio', 'core'];
+
+export async function createBackup(db: ExerciseStorage): Promise<BackupFile> {
+  return {
+    app: 'light_weight',
+    schemaVersion: ExerciseDB.dbVersion,
+    exportedAt: new Date().toISOString(),
+    exercises: await db.getAllExercises(),
+    records: await db.getAllRecords(),
+    plans: await db.getAllPlans(),
+    programs: await db.getAllPrograms(),
+  };
+}
+
+export function downloadBackup(backup: BackupFile) {
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `light-weight-backup-${backup.exportedAt.split('T')[0]}.json`;
+  link.click();
+  // Some browsers start the download after click() returns, so revoke later
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptionalNumber = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === 'number' && Number.isFinite(value));
+
+// Sets are optional; records made before they existed only have a count
+const isValidSet = (set: unknown): boolean =>
+  isObject(set) && typeof set.count === 'number' && Number.isFinite(set.count) && set.count >= 0 &&
+  isOptionalNumber(set.weight) && (set.unit === undefined || set.unit === 'kg' || set.unit === 'lbs');
+
+// Muscle groups are optional; backups made before they existed have none
+const isOptionalMuscleList = (value: unknown): boolean =>
+  value === undefined || (Array.isArray(value) && value.every(isMuscleGroup));
+
+// Parse and validate a backup file. Throws an Error describing the first problem found.
+export function parseBackup(text: string): BackupFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!isObject(data) || data.app !== 'light_weight') {
+    throw new Error('The file is not a Light Weight backup');
+  }
+  if (typeof data.schemaVersion !== 'number') {
+    throw new Error('The backup has no schema version');
+  }
+  if (data.schemaVersion > ExerciseDB.dbVersion) {
+    throw new Error(`The backup was made by a newer version of the app (schema ${data.schemaVersion})`);
+  }
+  for (const key of [ExerciseDB.exerciseStore, ExerciseDB.recordStore, ExerciseDB.planStore]) {
+    if (!Array.isArray(data[key])) {
+      throw new Error(`The backup is missing its ${key} list`);
+    }
+  }
+
+  (data.exercises as unknown[]).forEach((exercise, index) => {
+    if (!isObject(exercise) || typeof exercise.name !== 'string' || !exercise.name ||
+      !EXERCISE_TYPES.includes(exercise.type as Exercise['type']) || typeof exercise.defaultCount !== 'string' ||
+      !isOptionalMuscleList(exercise.primaryMuscles) || !isOptionalMuscleList(exercise.secondaryMuscles) ||
+      (exercise.equipment !== undefined && !isEquipment(exercise.equipment))) {
+      throw new Error(`Exercise ${index + 1} is invalid`);
+    }
+  });
+
+  (data.records as unknown[]).forEach((record, index) => {
+    if (!isObject(record) || typeof record.exerciseName !== 'string' ||
+      typeof record.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(record.date) ||
+      (typeof record.count !== 'number' && !Array.isArray(record.sets)) ||
+      (record.sets !== undefined && (!Array.isArray(record.sets) || !record.sets.every(isValidSet)))) {
+      throw new Error(`Record ${index + 1} is invalid`);
+    }
+  });
+
+  (data.plans as unknown[]).forEach((plan, index) => {
+    if (!isObject(plan) || typeof plan.name !== 'string' || !Array.isArray(plan.exercises) ||
+      typeof plan.schedule !== 'string') {
+      throw new Error(`Plan ${index + 1} is invalid`);
+    }
+  });
+
+  if (data.programs !== undefined && !Array.isArray(data.programs)) {
+    throw new Error(`The backup's ${ExerciseDB.programStore} list is invalid`);
+  }
+  ((data.programs || []) as unknown[]).forEach((program, index) => {
+    if (!isObject(program) || typeof program.name !== 'string' || !Array.isArray(program.weeks) ||
+      typeof program.startDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(program.startDate)) {
+      throw new Error(`Program ${index + 1} is invalid`);
+    }
+  });
+
+  return data as unknown as BackupFile;
+}
+
+const emptyCounts = (): RestoreCounts => ({ added: 0, skipped: 0, overwritten: 0 });
+
+// Restore a backup. Exercises conflict by name, records by id, and plans and
+// programs by name. Programs point at plans by id, so when merging those are
+// looked up again by name once the plans are in. Replacing keeps every id.
+export async function restoreBackup(db: ExerciseStorage, backup: BackupFile, mode: RestoreMode): Promise<RestoreReport> {
+  const report: RestoreReport = {
+    exercises: emptyCounts(),
+    records: emptyCounts(),
+    plans: emptyCounts(),
+    programs: emptyCounts(),
+  };
+
+  if (mode === 'replace') {
+    const contents = {
+      exercises: backup.exercises,
+      records: backup.records,
+      plans: backup.plans,
+      programs: backup.programs || [],
+    };
+    await db.replaceAllData(contents);
+    report.exercises.added = contents.exercises.length;
+    report.records.added = contents.records.length;
+    report.plans.added = contents.plans.length;
+    report.programs.added = contents.programs.length;
+    return report;
+  }
+
+  const existingExercises = new Set((await db.getAllExercises()).map(e => e.name));
+  for (const exercise of backup.exercises) {
+    if (existingExercises.has(exercise.name)) {
+      if (mode === 'keep') {
+        report.exercises.skipped++;
+        continue;
+      }
+      report.exercises.overwritten++;
+    } else {
+      report.exercises.added++;
+    }
+    await db.addExercise(exercise);
+  }
+
+  const existingRecords = new Set((await db.getAllRecords()).map(r => r.id));
+  for (const record of backup.records) {
+    if (record.id && existingRecords.has(record.id)) {
+      if (mode === 'keep') {
+        report.records.skipped++;
+        continue;
+      }
+      report.records.overwritten++;
+    } else {
+      report.records.added++;
+    }
+    await db.putRecord(record);
+  }
+
+  const existingPlans = new Map((await db.getAllPlans()).map(p => [p.name, p]));
+  for (const plan of backup.plans) {
+    const existing = existingPlans.get(plan.name);
+    if (existing?.id) {
+      if (mode === 'keep') {
+        report.plans.skipped++;
+        continue;
+      }
+      await db.updatePlan(existing.id, { ...plan, id: existing.id });
+      report.plans.overwritten++;
+    } else {
+      const newPlan = { ...plan };
+      delete newPlan.id;
+      await db.addPlan(newPlan);
+      report.plans.added++;
+    }
+  }
+
+  const backupPlanNames = new Map(backup.plans.map(plan => [plan.id, plan.name]));
+  const planIds = new Map((await db.getAllPlans()).map(plan => [plan.name, plan.id]));
+  const restoredPlanId = (id: number) => planIds.get(backupPlanNames.get(id) || '');
+
+  const existingPrograms = new Map((await db.getAllPrograms()).map(p => [p.name, p]));
+  for (const program of backup.programs || []) {
+    const weeks = program.weeks.map(week => ({
+      ...week,
+      planIds: week.planIds.map(restoredPlanId).filter((id): id is number => id !== undefined),
+    }));
+    const existing = existingPrograms.get(program.name);
+    if (existing?.id) {
+      if (mode === 'keep') {
+        report.programs.skipped++;
+        continue;
+      }
+      await db.updateProgram(existing.id, { ...program, weeks, id: existing.id });
+      report.programs.overwritten++;
+    } else {
+      const newProgram = { ...program, weeks };
+      delete newProgram.id;
+      await db.addProgram(newProgram);
+      report.programs.added++;
+    }
+  }
+
+  return report;
+}
+
+export function formatRestoreReport(report: RestoreReport): string {
+  const describe = (label: string, counts: RestoreCounts) =>
+    `${label}: ${counts.added} added, ${counts.skipped} skipped, ${counts.overwritten} overwritten`;
+  return [
+    describe('Exercises', report.exercises),
+    describe('Records', report.records),
+    describe('Plans', report.plans),
+    describe('Programs', report.programs),
+  ].join('. ');
+}
@@ -0,0 +1,67 @@
+import {
+  format, startOfMonth, endOfMonth, startOfWeek, endOfWeek, eachDayOfInterval, subWeeks,
+} from 'date-fns';
+import { ExerciseRecord, Plan } from './indexdb_handler';
+import { getRecordSets, workingSets, convertWeight } from './record_utils';
+import { plansScheduledOn } from './schedule_utils';
+
+export type HeatmapMetric = 'sessions' | 'volume';
+
+export const HEATMAP_METRICS: { metric: HeatmapMetric, label: string }[] = [
+  { metric: 'sessions', label: 'Sessions' },
+  { metric: 'volume', label: 'Volume' },
+];
+
+export interface DaySummary {
+  sessions: number; // Records logged, one per exercise done
+  volume: number; // Working sets × reps × weight, in the unit asked for
+}
+
+// Calendar weeks run Monday to Sunday, like Plan.schedule
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+export function summarizeDays(records: ExerciseRecord[], unit: 'kg' | 'lbs'): Map<string, DaySummary> {
+  const days = new Map<string, DaySummary>();
+  for (const record of records) {
+    const day = days.get(record.date) || { sessions: 0, volume: 0 };
+    day.sessions++;
+    for (const set of workingSets(getRecordSets(record))) {
+      if (set.weight) day.volume += set.count * convertWeight(set.weight, set.unit || 'lbs', unit);
+    }
+    days.set(record.date, day);
+  }
+  return days;
+}
+
+// Shade from 0 (nothing logged) to 4, relative to the busiest day shown
+export function heatLevel(value: number, max: number): number {
+  if (value <= 0 || max <= 0) return 0;
+  return Math.min(4, Math.ceil((value / max) * 4));
+}
+
+// Whole weeks covering a month, Monday first
+export function monthDays(month: Date): Date[] {
+  return eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month), WEEK_OPTIONS),
+    end: endOfWeek(endOfMonth(month), WEEK_OPTIONS),
+  });
+}
+
+// The last 53 weeks up to the week of `today`, as columns of seven days
+export function yearWeeks(today: Date): Date[][] {
+  const days = eachDayOfInterval({
+    start: startOfWeek(subWeeks(today, 52), WEEK_OPTIONS),
+    end: endOfWeek(today, WEEK_OPTIONS),
+  });
+  return Array.from({ length: days.length / 7 }, (_, week) => days.slice(week * 7, week * 7 + 7));
+}
+
+// 'done' when something was logged; otherwise 'missed' or 'planned' when a plan
+// was scheduled, depending on whether the day has passed
+export type DayStatus = 'done' | 'missed' | 'planned' | 'rest';
+
+export function dayStatus(date: Date, summary: DaySummary | undefined, plans: Plan[], today: Date): DayStatus {
+  if (summary && summary.sessions > 0) return 'done';
+  if (plansScheduledOn(plans, date).length === 0) return 'rest';
+  return format(date, 'yyyy-MM-dd') < format(today, 'yyyy-MM-dd') ? 'missed' : 'planned';
+}
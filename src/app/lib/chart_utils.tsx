@@ -0,0 +1,73 @@
+import { format, subWeeks, subMonths, subYears } from 'date-fns';
+import { ExerciseRecord } from './indexdb_handler';
+import { getRecordSets, workingSets, convertWeight } from './record_utils';
+import { recordOneRepMax, E1RMFormula } from './e1rm_utils';
+
+export type ChartRange = '4w' | '3m' | '1y' | 'all';
+
+export const CHART_RANGES: { range: ChartRange, label: string }[] = [
+  { range: '4w', label: '4 Weeks' },
+  { range: '3m', label: '3 Months' },
+  { range: '1y', label: '1 Year' },
+  { range: 'all', label: 'All' },
+];
+
+export type ChartMetric = 'count' | 'weight' | 'volume' | 'e1rm' | 'rpe';
+
+export interface ChartPoint {
+  record: ExerciseRecord;
+  time: number; // Timestamp of the record, for the x axis
+  value: number;
+}
+
+// First date included in a range, or null for all time
+export function rangeStart(range: ChartRange, today = new Date()): string | null {
+  switch (range) {
+    case '4w':
+      return format(subWeeks(today, 4), 'yyyy-MM-dd');
+    case '3m':
+      return format(subMonths(today, 3), 'yyyy-MM-dd');
+    case '1y':
+      return format(subYears(today, 1), 'yyyy-MM-dd');
+    case 'all':
+      return null;
+  }
+}
+
+// Value of one record for a metric, or null when it has none. Warm-up sets are
+// left out; weights are converted to `unit`.
+function metricValue(record: ExerciseRecord, metric: ChartMetric, unit: 'kg' | 'lbs', formula: E1RMFormula): number | null {
+  const sets = workingSets(getRecordSets(record));
+  const weightOf = (set: typeof sets[number]) => convertWeight(set.weight || 0, set.unit || 'lbs', unit);
+
+  switch (metric) {
+    case 'count':
+      return sets.reduce((sum, set) => sum + set.count, 0) || null;
+    case 'weight': {
+      const top = Math.max(0, ...sets.map(weightOf));
+      return top > 0 ? top : null;
+    }
+    case 'volume': {
+      const volume = sets.reduce((sum, set) => sum + set.count * weightOf(set), 0);
+      return volume > 0 ? volume : null;
+    }
+    case 'e1rm':
+      return recordOneRepMax(record, unit, formula)?.value ?? null;
+    case 'rpe': {
+      const rpes = sets.filter(set => set.rpe !== null && set.rpe !== undefined).map(set => set.rpe as number);
+      return rpes.length > 0 ? Math.max(...rpes) : null;
+    }
+  }
+}
+
+// Chart points for a metric, oldest first
+export function buildSeries(records: ExerciseRecord[], metric: ChartMetric, unit: 'kg' | 'lbs', formula: E1RMFormula = 'epley'): ChartPoint[] {
+  return records
+    .map(record => ({
+      record,
+      time: new Date(`${record.date}T${record.time || '00:00:00'}`).getTime(),
+      value: metricValue(record, metric, unit, formula),
+    }))
+    .filter((point): point is ChartPoint => point.value !== null)
+    .sort((a, b) => a.time - b.time);
+}
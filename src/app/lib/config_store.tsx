@@ -2,6 +2,10 @@
 
 import { useState, useEffect } from 'react'
 import Cookies from 'js-cookie'
+import { E1RMFormula } from './e1rm_utils'
+import { CompletionRule, DEFAULT_COMPLETION_RULE } from './adherence_utils'
+import { VolumeTargets } from './volume_utils'
+import { applyTheme } from './theme'
 
 export enum StorageType {
   POSTGRES = 'postgres',
@@ -10,26 +14,64 @@ export enum StorageType {
 
 export enum Theme {
   LIGHT = 'light',
-  DARK = 'dark'
+  DARK = 'dark',
+  SYSTEM = 'system', // Follow the device's light/dark setting
 }
 
 interface AppConfig {
   storageType: StorageType
   theme: Theme
-  postgresUrl?: string
+  apiToken?: string // Sent to /api/db; must match DB_API_TOKEN on the server. Kept in localStorage, not the cookie
+  e1rmFormula: E1RMFormula
+  weightUnit: 'kg' | 'lbs' // Weights are shown in this unit; records keep the unit they were entered in
+  restSeconds: number // Rest timer after strength sets, unless the exercise sets its own; 0 turns it off
+  completionRule: CompletionRule // When a scheduled plan day counts as done
+  volumeTargets: VolumeTargets // Weekly hard sets per muscle group; unset muscles use the default range
   // Add more config options here as needed
 }
 
 const DEFAULT_CONFIG: AppConfig = {
   storageType: StorageType.LOCAL_STORAGE,
-  theme: Theme.LIGHT,
-  postgresUrl: '',
+  theme: Theme.SYSTEM,
+  apiToken: '',
+  e1rmFormula: 'epley',
+  weightUnit: 'lbs',
+  restSeconds: 90,
+  completionRule: DEFAULT_COMPLETION_RULE,
+  volumeTargets: {},
 }
 
 // Cookie name
 const CONFIG_COOKIE = 'workout_tracker_config'
 
+// The cookie goes out with every request to the site, so the /api/db token
+// is kept apart in localStorage
+const API_TOKEN_KEY = 'workout_tracker_api_token'
+
+// Fill in options added since the cookie was written. Cookies from before the
+// server owned the database connection may still hold a postgresUrl; drop it.
+// Older cookies may also hold the token, which moves to localStorage.
+function parseConfig(savedConfig: string): AppConfig {
+  const saved = JSON.parse(savedConfig)
+  delete saved.postgresUrl
+  const apiToken = localStorage.getItem(API_TOKEN_KEY) || saved.apiToken || ''
+  return { ...DEFAULT_CONFIG, ...saved, apiToken }
+}
+
+function saveConfig(config: AppConfig) {
+  const saved: Partial<AppConfig> = { ...config }
+  delete saved.apiToken
+  Cookies.set(CONFIG_COOKIE, JSON.stringify(saved))
+  if (config.apiToken) {
+    localStorage.setItem(API_TOKEN_KEY, config.apiToken)
+  } else {
+    localStorage.removeItem(API_TOKEN_KEY)
+  }
+}
+
 export function useAppConfig() {
+  // The server renders with the defaults, so the first client render must too;
+  // the saved config is applied once mounted and `loaded` turns true
   const [config, setConfig] = useState<AppConfig>(DEFAULT_CONFIG)
   const [loaded, setLoaded] = useState(false)
 
@@ -38,16 +80,21 @@ export function useAppConfig() {
     const savedConfig = Cookies.get(CONFIG_COOKIE)
     if (savedConfig) {
       try {
-        setConfig(JSON.parse(savedConfig))
+        const parsed = parseConfig(savedConfig)
+        setConfig(parsed)
+        // Rewrite the cookie so a dropped postgresUrl or a token doesn't linger
+        saveConfig(parsed)
+        setLoaded(true)
+        return
       } catch (e) {
         console.error('Failed to parse config cookie:', e)
-        // If cookie is invalid, set it to default
-        Cookies.set(CONFIG_COOKIE, JSON.stringify(DEFAULT_CONFIG))
       }
-    } else {
-      // If no cookie exists, create one with default config
-      Cookies.set(CONFIG_COOKIE, JSON.stringify(DEFAULT_CONFIG))
     }
+    // If the cookie is missing or invalid, start over from the defaults; the
+    // token lives apart from the cookie, so keep it
+    const defaults = { ...DEFAULT_CONFIG, apiToken: localStorage.getItem(API_TOKEN_KEY) || '' }
+    setConfig(defaults)
+    saveConfig(defaults)
     setLoaded(true)
   }, [])
 
@@ -55,7 +102,8 @@ export function useAppConfig() {
   const updateConfig = (newConfig: Partial<AppConfig>) => {
     const updatedConfig = { ...config, ...newConfig }
     setConfig(updatedConfig)
-    Cookies.set(CONFIG_COOKIE, JSON.stringify(updatedConfig))
+    saveConfig(updatedConfig)
+    if (newConfig.theme) applyTheme(newConfig.theme)
     return updatedConfig
   }
 
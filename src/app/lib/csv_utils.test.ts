@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { Exercise, ExerciseRecord } from './indexdb_handler';
+import {
+  buildImport, detectDateFormat, guessMapping, parseCSV, parseUnit, recordsToCSV, unitFromHeader,
+} from './csv_utils';
+
+const exercises: Exercise[] = [{ name: 'Bench Press', type: 'strength', defaultCount: '8', instruction: '' }];
+
+describe('parseCSV', () => {
+  it('handles quotes, escaped quotes, CRLF and blank lines', () => {
+    expect(parseCSV('a,b\r\n"x, y","say ""hi"""\r\n\r\n1,\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"'],
+      ['1', ''],
+    ]);
+  });
+
+  it('detects semicolon-separated files and strips a BOM', () => {
+    expect(parseCSV('\uFEFFDate;Weight\n2024-03-04;100,5')).toEqual([['Date', 'Weight'], ['2024-03-04', '100,5']]);
+  });
+});
+
+describe('import helpers', () => {
+  it('maps headers by name', () => {
+    const mapping = guessMapping(['Workout Date', 'Exercise Name', 'Reps', 'Weight (kg)', 'Notes']);
+    expect(mapping).toMatchObject({ date: 0, exercise: 1, count: 2, weight: 3, note: 4, unit: -1, time: -1 });
+  });
+
+  it('reads units from values and headers', () => {
+    expect(parseUnit('Kilograms')).toBe('kg');
+    expect(parseUnit('lb')).toBe('lbs');
+    expect(parseUnit('stone')).toBeNull();
+    expect(unitFromHeader('Weight (lbs)')).toBe('lbs');
+  });
+
+  it('picks the date format most samples parse with', () => {
+    expect(detectDateFormat(['03/04/2024', '03/15/2024', 'n/a'])).toBe('MM/dd/yyyy');
+    expect(detectDateFormat(['15.03.2024'])).toBe('dd.MM.yyyy');
+  });
+});
+
+describe('buildImport', () => {
+  const [header, ...rows] = parseCSV([
+    'Date,Exercise,Reps,Weight,Unit,Notes',
+    '2024-03-04,bench press,8,100kg,,Paused',
+    '2024-03-04,bench press,6,225,lbs,',
+    '2024-03-04,Front Lever,10,,,',
+    'yesterday,Bench Press,8,100,,',
+    '2024-03-05,Bench Press,0,100,,',
+  ].join('\n'));
+  const options = { mapping: guessMapping(header), dateFormat: 'yyyy-MM-dd', timeFormat: null, defaultUnit: 'lbs' as const };
+
+  it('groups consecutive rows into records and keeps each set unit', () => {
+    const { records, setCount, unknownExercises } = buildImport(rows, options, exercises);
+    expect(setCount).toBe(3);
+    expect(unknownExercises).toEqual(['Front Lever']);
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({ exerciseName: 'Bench Press', date: '2024-03-04', time: '00:00:00', note: 'Paused' });
+    expect(records[0].sets).toEqual([
+      { count: 8, weight: 100, unit: 'kg', rpe: null, warmup: false },
+      { count: 6, weight: 225, unit: 'lbs', rpe: null, warmup: false },
+    ]);
+    expect(records[1].sets?.[0].unit).toBe('lbs');
+  });
+
+  it('reports bad rows by their line in the file', () => {
+    expect(buildImport(rows, options, exercises).errors).toEqual([
+      { row: 5, message: 'Invalid date "yesterday"' },
+      { row: 6, message: 'Invalid count "0"' },
+    ]);
+  });
+
+  it('reads its own export back', () => {
+    const records: ExerciseRecord[] = [{
+      id: 1, exerciseName: 'Bench Press', date: '2024-03-04', time: '18:30:00', count: 0, rpe: null, note: 'Top set, then back-off',
+      sets: [
+        { count: 10, weight: 40, unit: 'kg', rpe: null, warmup: true },
+        { count: 5, weight: 225, unit: 'lbs', rpe: 8, warmup: false },
+      ],
+    }];
+    const [exportHeader, ...exportRows] = parseCSV(recordsToCSV(records));
+    const { records: imported, errors } = buildImport(exportRows, {
+      mapping: guessMapping(exportHeader), dateFormat: 'yyyy-MM-dd', timeFormat: 'HH:mm:ss', defaultUnit: 'kg',
+    }, exercises);
+    expect(errors).toEqual([]);
+    expect(imported).toHaveLength(1);
+    expect(imported[0]).toMatchObject({ time: '18:30:00', note: 'Top set, then back-off' });
+    expect(imported[0].sets).toEqual(records[0].sets);
+  });
+});
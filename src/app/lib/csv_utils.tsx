@@ -0,0 +1,311 @@
+import { parse, isValid, format } from 'date-fns';
+import { Exercise, ExerciseRecord, NewExerciseRecord, RecordSet } from './indexdb_handler';
+import { getRecordSets, summarizeSets } from './record_utils';
+import { ExerciseStorage } from './db_store';
+
+// CSV reading and writing
+// -----------------------
+
+// Semicolons when the first line has more of them than commas, as in some
+// European exports
+export function detectDelimiter(text: string): ',' | ';' {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const count = (char: string) => firstLine.split(char).length - 1;
+  return count(';') > count(',') ? ';' : ',';
+}
+
+// Parse CSV text (RFC 4180: quoted fields, "" escapes, CRLF or LF)
+export function parseCSV(text: string, delimiter: ',' | ';' = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  text = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+const escapeField = (value: string) =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function toCSV(rows: (string | number | null | undefined)[][]): string {
+  return rows.map(row => row.map(value => escapeField(value?.toString() ?? '')).join(',')).join('\n');
+}
+
+export function downloadCSV(csv: string, filename: string) {
+  const blob = new Blob([csv], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download after click() returns, so revoke later
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Record export
+// -------------
+
+const EXPORT_HEADER = ['Date', 'Time', 'Exercise', 'Set', 'Warmup', 'Count', 'Weight', 'Unit', 'RPE', 'Note'];
+
+// One row per set, so spreadsheets can work with individual sets
+export function recordsToCSV(records: ExerciseRecord[]): string {
+  const sorted = [...records].sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`));
+  const rows = sorted.flatMap(record => getRecordSets(record).map((set, index) => [
+    record.date,
+    record.time,
+    record.exerciseName,
+    index + 1,
+    set.warmup ? 'yes' : '',
+    set.count,
+    set.weight,
+    set.weight ? set.unit : '',
+    set.rpe,
+    record.note,
+  ]));
+  return toCSV([EXPORT_HEADER, ...rows]);
+}
+
+export interface ExportFilter {
+  startDate?: string;
+  endDate?: string;
+  exerciseName?: string;
+}
+
+// Records matching the filter, using the narrowest index available
+export async function getRecordsForExport(db: ExerciseStorage, filter: ExportFilter): Promise<ExerciseRecord[]> {
+  const { startDate, endDate, exerciseName } = filter;
+  const inRange = (record: ExerciseRecord) =>
+    (!startDate || record.date >= startDate) && (!endDate || record.date <= endDate);
+
+  if (exerciseName) {
+    return (await db.getRecordsByExercise(exerciseName)).filter(inRange);
+  }
+  if (startDate || endDate) {
+    return db.getRecordsByDateRange(startDate || '0000-01-01', endDate || '9999-12-31');
+  }
+  return db.getAllRecords();
+}
+
+// Record import
+// -------------
+
+export type ImportField = 'date' | 'time' | 'exercise' | 'count' | 'weight' | 'unit' | 'rpe' | 'warmup' | 'note';
+
+// Column index per field; -1 means not present in the file
+export type ColumnMapping = Record<ImportField, number>;
+
+export const IMPORT_FIELDS: { field: ImportField, label: string, required: boolean }[] = [
+  { field: 'date', label: 'Date', required: true },
+  { field: 'time', label: 'Time', required: false },
+  { field: 'exercise', label: 'Exercise', required: true },
+  { field: 'count', label: 'Reps / Seconds', required: true },
+  { field: 'weight', label: 'Weight', required: false },
+  { field: 'unit', label: 'Unit', required: false },
+  { field: 'rpe', label: 'RPE', required: false },
+  { field: 'warmup', label: 'Warm-up flag', required: false },
+  { field: 'note', label: 'Note', required: false },
+];
+
+// Header names that map to each field, lowercase
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  date: ['date', 'day', 'workout date'],
+  time: ['time', 'start time'],
+  exercise: ['exercise', 'exercise name', 'exercisename', 'name', 'movement'],
+  count: ['count', 'reps', 'rep', 'repetitions', 'duration', 'seconds'],
+  weight: ['weight', 'load', 'weight (kg)', 'weight (lbs)', 'weight (lb)'],
+  unit: ['unit', 'units', 'weight unit'],
+  rpe: ['rpe'],
+  warmup: ['warmup', 'warm-up', 'warm up', 'set type'],
+  note: ['note', 'notes', 'comment', 'comments'],
+};
+
+export function guessMapping(header: string[]): ColumnMapping {
+  const normalized = header.map(h => h.trim().toLowerCase());
+  const mapping = {} as ColumnMapping;
+  for (const { field } of IMPORT_FIELDS) {
+    mapping[field] = normalized.findIndex(h => FIELD_ALIASES[field].includes(h));
+  }
+  return mapping;
+}
+
+export const DATE_FORMATS = ['yyyy-MM-dd', 'MM/dd/yyyy', 'dd/MM/yyyy', 'dd.MM.yyyy', 'yyyy/MM/dd', 'M/d/yyyy', 'd/M/yyyy', 'yyyy-MM-dd HH:mm:ss', 'yyyy-MM-dd HH:mm'];
+export const TIME_FORMATS = ['HH:mm:ss', 'HH:mm', 'h:mm a', 'h:mm:ss a'];
+
+// Format that parses the most samples, so a few bad rows don't hide it.
+// Ties go to the earlier format. Null if nothing parses.
+function detectFormat(samples: string[], formats: string[]): string | null {
+  const values = samples.map(s => s.trim()).filter(Boolean);
+  let best: string | null = null;
+  let bestCount = 0;
+  for (const f of formats) {
+    const count = values.filter(value => isValid(parse(value, f, new Date()))).length;
+    if (count > bestCount) {
+      best = f;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+export function detectDateFormat(samples: string[]): string | null {
+  return detectFormat(samples, DATE_FORMATS);
+}
+
+export function detectTimeFormat(samples: string[]): string | null {
+  return detectFormat(samples, TIME_FORMATS);
+}
+
+export function parseUnit(value: string): 'kg' | 'lbs' | null {
+  const unit = value.trim().toLowerCase();
+  if (/^(kg|kgs|kilo|kilos|kilograms?)$/.test(unit)) return 'kg';
+  if (/^(lb|lbs|pounds?)$/.test(unit)) return 'lbs';
+  return null;
+}
+
+// Unit named in a header such as "Weight (kg)"
+export function unitFromHeader(header: string): 'kg' | 'lbs' | null {
+  const match = header.match(/\(([^)]+)\)/);
+  return match ? parseUnit(match[1]) : null;
+}
+
+// Weight with an optional unit suffix, e.g. "100", "100kg", "225 lbs"
+function parseWeight(value: string): { weight?: number, unit: 'kg' | 'lbs' | null } {
+  const match = value.trim().match(/^(-?[\d.,]+)\s*([a-zA-Z]*)$/);
+  if (!match) return { unit: null };
+  const weight = parseFloat(match[1].replace(',', '.'));
+  return { weight: isNaN(weight) ? undefined : weight, unit: parseUnit(match[2]) };
+}
+
+const isWarmup = (value: string) => /^(yes|y|true|1|w|warm-?up|warm up)$/i.test(value.trim());
+
+export interface ImportOptions {
+  mapping: ColumnMapping;
+  dateFormat: string;
+  timeFormat: string | null;
+  defaultUnit: 'kg' | 'lbs';
+}
+
+export interface ImportPreview {
+  records: NewExerciseRecord[];
+  errors: { row: number, message: string }[];
+  unknownExercises: string[];
+  setCount: number;
+}
+
+// Dry run: turn data rows into records without saving anything. Consecutive
+// rows with the same date, time and exercise become the sets of one record.
+export function buildImport(rows: string[][], options: ImportOptions, exercises: Exercise[]): ImportPreview {
+  const { mapping, dateFormat, timeFormat, defaultUnit } = options;
+  const cell = (row: string[], field: ImportField) => mapping[field] >= 0 ? (row[mapping[field]] ?? '').trim() : '';
+
+  const records: NewExerciseRecord[] = [];
+  const errors: ImportPreview['errors'] = [];
+  const known = new Set(exercises.map(e => e.name.toLowerCase()));
+  const unknown = new Set<string>();
+  let setCount = 0;
+  let currentKey = '';
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2; // 1-based, after the header
+    const parsedDate = parse(cell(row, 'date'), dateFormat, new Date());
+    if (!isValid(parsedDate)) {
+      errors.push({ row: rowNumber, message: `Invalid date "${cell(row, 'date')}"` });
+      return;
+    }
+
+    const exerciseName = cell(row, 'exercise');
+    if (!exerciseName) {
+      errors.push({ row: rowNumber, message: 'Missing exercise name' });
+      return;
+    }
+
+    const count = parseFloat(cell(row, 'count'));
+    if (isNaN(count) || count <= 0) {
+      errors.push({ row: rowNumber, message: `Invalid count "${cell(row, 'count')}"` });
+      return;
+    }
+
+    let time = '00:00:00';
+    if (timeFormat && cell(row, 'time')) {
+      const parsedTime = parse(cell(row, 'time'), timeFormat, new Date());
+      if (isValid(parsedTime)) time = format(parsedTime, 'HH:mm:ss');
+    } else if (dateFormat.includes('HH')) {
+      time = format(parsedDate, 'HH:mm:ss');
+    }
+
+    const { weight, unit } = parseWeight(cell(row, 'weight'));
+    const rpe = parseFloat(cell(row, 'rpe'));
+    const set: RecordSet = {
+      count: Math.round(count),
+      weight,
+      unit: parseUnit(cell(row, 'unit')) || unit || defaultUnit,
+      rpe: isNaN(rpe) ? null : rpe,
+      warmup: isWarmup(cell(row, 'warmup')),
+    };
+
+    if (!known.has(exerciseName.toLowerCase())) unknown.add(exerciseName);
+
+    // Use the existing spelling of known exercises
+    const existing = exercises.find(e => e.name.toLowerCase() === exerciseName.toLowerCase());
+    const date = format(parsedDate, 'yyyy-MM-dd');
+    const key = `${date}|${time}|${exerciseName.toLowerCase()}`;
+    const last = records[records.length - 1];
+
+    if (last && key === currentKey) {
+      last.sets = [...(last.sets || []), set];
+    } else {
+      records.push({
+        exerciseName: existing?.name || exerciseName,
+        date,
+        time,
+        sets: [set],
+        count: 0,
+        rpe: null,
+        note: cell(row, 'note'),
+      });
+      currentKey = key;
+    }
+    setCount++;
+  });
+
+  // Fill the record-level summary once all sets are in
+  for (const record of records) {
+    Object.assign(record, summarizeSets(record.sets || []));
+  }
+
+  return { records, errors, unknownExercises: Array.from(unknown), setCount };
+}
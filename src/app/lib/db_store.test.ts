@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createPostgresStorage } from './db_store';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('Postgres storage client', () => {
+    it('sends the token and the method to /api/db', async () => {
+        const fetch = vi.fn().mockResolvedValue(Response.json({ result: [] }));
+        vi.stubGlobal('fetch', fetch);
+
+        expect(await createPostgresStorage('secret').getAllPlans()).toEqual([]);
+        const [url, init] = fetch.mock.calls[0];
+        expect(url).toBe('/api/db');
+        expect(init.headers.Authorization).toBe('Bearer secret');
+        expect(JSON.parse(init.body)).toEqual({ method: 'getAllPlans', args: [] });
+    });
+
+    it('rethrows a duplicate name as a ConstraintError, like IndexedDB', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+            Response.json({ error: 'duplicate key', name: 'ConstraintError' }, { status: 409 })
+        ));
+
+        const error = await createPostgresStorage('secret').addPlan({ name: 'Push', exercises: [], schedule: '0000000', createdAt: '' })
+            .catch((err: Error) => err);
+        expect(error).toBeInstanceOf(Error);
+        expect((error as Error).name).toBe('ConstraintError');
+    });
+});
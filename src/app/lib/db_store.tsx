@@ -0,0 +1,164 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useAppConfig, StorageType } from './config_store'
+import { ExerciseDB, Exercise, ExerciseRecord, NewExerciseRecord, Plan, Program, StoreContents, ExerciseStats, ExerciseWithStats, StatsOptions } from './indexdb_handler'
+import { PersonalRecord } from './pr_utils'
+import { notifyPersonalRecords } from './pr_events'
+import { HAS_SERVER_API, withBasePath } from './deploy_utils'
+
+// Everything the app needs from a storage backend. ExerciseDB (IndexedDB) is
+// the local implementation; the Postgres one forwards to the /api/db route.
+interface ExerciseStorage {
+    initializeDB(): Promise<boolean>;
+
+    // Exercises
+    addExercise(exercise: Exercise): Promise<boolean>;
+    getExercise(exerciseName: string): Promise<Exercise | undefined>;
+    getAllExercises(): Promise<Exercise[]>;
+    updateExercise(oldName: string, updatedExercise: Exercise): Promise<boolean>;
+    deleteExercise(exerciseName: string): Promise<boolean>;
+    clearAllExercises(): Promise<boolean>;
+    populateSampleExercises(): Promise<boolean>;
+
+    // Records
+    addRecord(record: NewExerciseRecord): Promise<number>;
+    getRecord(recordId: number): Promise<ExerciseRecord | undefined>;
+    getRecordsByExercise(exerciseName: string): Promise<ExerciseRecord[]>;
+    getRecordsByDateRange(startDate: string, endDate: string): Promise<ExerciseRecord[]>;
+    getAllRecords(): Promise<ExerciseRecord[]>;
+    putRecord(record: ExerciseRecord): Promise<number>;
+    updateRecord(id: number | undefined, record: Partial<ExerciseRecord>): Promise<boolean>;
+    deleteRecord(recordId: number | undefined): Promise<boolean>;
+    clearAllRecords(): Promise<boolean>;
+    populateSampleRecords(): Promise<boolean>;
+
+    // Plans
+    getAllPlans(): Promise<Plan[]>;
+    addPlan(plan: Omit<Plan, 'id'>): Promise<number>;
+    updatePlan(id: number, plan: Plan): Promise<boolean>;
+    deletePlan(id: number): Promise<void>;
+    clearAllPlans(): Promise<boolean>;
+    populateSamplePlans(): Promise<boolean>;
+
+    // Programs
+    getAllPrograms(): Promise<Program[]>;
+    addProgram(program: Omit<Program, 'id'>): Promise<number>;
+    updateProgram(id: number, program: Program): Promise<boolean>;
+    deleteProgram(id: number): Promise<void>;
+
+    // Backups
+    replaceAllData(contents: StoreContents): Promise<boolean>;
+
+    // Statistics and sample data
+    getExerciseStats(exerciseName: string, options?: StatsOptions): Promise<ExerciseStats>;
+    getExercisesWithStats(): Promise<ExerciseWithStats[]>;
+    getPersonalRecords(exerciseName: string): Promise<PersonalRecord[]>;
+    populateSampleData(): Promise<boolean>;
+}
+
+const IndexedDBStorage: ExerciseStorage = ExerciseDB
+
+// Call one method of the server-side Postgres handler. The server picks the
+// database; the token proves the caller may use it.
+async function callPostgres<T>(apiToken: string, method: string, args: unknown[] = []): Promise<T> {
+    const response = await fetch(withBasePath('/api/db'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiToken}` },
+        body: JSON.stringify({ method, args }),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        const error = new Error(body.error || `Postgres request "${method}" failed`);
+        // e.g. ConstraintError for a duplicate name, as IndexedDB reports it
+        if (body.name) error.name = body.name;
+        throw error;
+    }
+    return body.result as T;
+}
+
+function createPostgresStorage(apiToken: string = ''): ExerciseStorage {
+    const call = <T,>(method: string, ...args: unknown[]) => callPostgres<T>(apiToken, method, args);
+
+    const storage: ExerciseStorage = {
+        initializeDB: () => call('initializeDB'),
+
+        addExercise: (exercise) => call('addExercise', exercise),
+        getExercise: async (exerciseName) => (await call<Exercise | null>('getExercise', exerciseName)) ?? undefined,
+        getAllExercises: () => call('getAllExercises'),
+        updateExercise: (oldName, updatedExercise) => call('updateExercise', oldName, updatedExercise),
+        deleteExercise: (exerciseName) => call('deleteExercise', exerciseName),
+        clearAllExercises: () => call('clearAllExercises'),
+        populateSampleExercises: () => call('populateSampleExercises'),
+
+        addRecord: async (record) => {
+            const id = await call<number>('addRecord', record);
+            await notifyPersonalRecords(storage, record.exerciseName, id);
+            return id;
+        },
+        getRecord: async (recordId) => (await call<ExerciseRecord | null>('getRecord', recordId)) ?? undefined,
+        getRecordsByExercise: (exerciseName) => call('getRecordsByExercise', exerciseName),
+        getRecordsByDateRange: (startDate, endDate) => call('getRecordsByDateRange', startDate, endDate),
+        getAllRecords: () => call('getAllRecords'),
+        putRecord: (record) => call('putRecord', record),
+        updateRecord: async (id, record) => {
+            const updated = await call<boolean>('updateRecord', id, record);
+            // Only look the record up when someone is listening
+            await notifyPersonalRecords(storage, async () =>
+                record.exerciseName || (await storage.getRecord(id as number))?.exerciseName,
+                id as number);
+            return updated;
+        },
+        deleteRecord: (recordId) => call('deleteRecord', recordId),
+        clearAllRecords: () => call('clearAllRecords'),
+
+        getAllPlans: () => call('getAllPlans'),
+        addPlan: (plan) => call('addPlan', plan),
+        updatePlan: (id, plan) => call('updatePlan', id, plan),
+        deletePlan: (id) => call('deletePlan', id),
+        clearAllPlans: () => call('clearAllPlans'),
+
+        getAllPrograms: () => call('getAllPrograms'),
+        addProgram: (program) => call('addProgram', program),
+        updateProgram: (id, program) => call('updateProgram', id, program),
+        deleteProgram: (id) => call('deleteProgram', id),
+
+        replaceAllData: (contents) => call('replaceAllData', contents),
+
+        // These only go through `this`, so the IndexedDB versions run
+        // unchanged on top of the Postgres primitives above
+        populateSampleRecords: ExerciseDB.populateSampleRecords,
+        populateSamplePlans: ExerciseDB.populateSamplePlans,
+        getExerciseStats: ExerciseDB.getExerciseStats,
+        getExercisesWithStats: ExerciseDB.getExercisesWithStats,
+        getPersonalRecords: ExerciseDB.getPersonalRecords,
+        populateSampleData: ExerciseDB.populateSampleData,
+    };
+    return storage;
+}
+
+// Pick the backend for a storage type. A static export has no /api/db, so it
+// stays on IndexedDB whatever an old config says.
+function getExerciseStorage(storageType: StorageType, apiToken?: string): ExerciseStorage {
+    return storageType === StorageType.POSTGRES && HAS_SERVER_API
+        ? createPostgresStorage(apiToken)
+        : IndexedDBStorage;
+}
+
+// Storage backend selected in the app settings
+function useExerciseDB(): ExerciseStorage {
+    const { config } = useAppConfig();
+    return useMemo(
+        () => getExerciseStorage(config.storageType, config.apiToken),
+        [config.storageType, config.apiToken]
+    );
+}
+
+export {
+    IndexedDBStorage,
+    createPostgresStorage,
+    getExerciseStorage,
+    useExerciseDB,
+};
+
+export type { ExerciseStorage };
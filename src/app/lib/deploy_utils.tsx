@@ -0,0 +1,12 @@
+// How the app was built. The GitHub Pages deploy is a static export served
+// under the repository's path; a server build also has the /api routes.
+
+// Path the app is served under, e.g. "/light_weight"; empty at the site root
+export const BASE_PATH = process.env.NEXT_PUBLIC_BASE_PATH || '';
+
+export const HAS_SERVER_API = process.env.NEXT_PUBLIC_STATIC_EXPORT !== 'true';
+
+// Prefix a root-relative path, e.g. "/sw.js", with the base path
+export function withBasePath(path: string): string {
+  return `${BASE_PATH}${path}`;
+}
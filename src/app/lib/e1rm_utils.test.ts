@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { ExerciseRecord } from './indexdb_handler';
+import { estimateOneRepMax, recordOneRepMax, roundToIncrement, rpePercentage, suggestWorkingWeight } from './e1rm_utils';
+
+describe('rpePercentage', () => {
+  it('reads the RTS chart', () => {
+    expect(rpePercentage(1, 10)).toBe(1);
+    expect(rpePercentage(1, 9.5)).toBeCloseTo(0.978);
+    expect(rpePercentage(5, 8)).toBeCloseTo(0.811);
+    // Half an RPE point is worth half a rep
+    expect(rpePercentage(3, 9)).toBe(rpePercentage(4, 10));
+    expect(rpePercentage(12, 6)).toBeCloseTo(0.574);
+  });
+
+  it('is null outside the chart', () => {
+    expect(rpePercentage(0, 10)).toBeNull();
+    expect(rpePercentage(13, 10)).toBeNull();
+    expect(rpePercentage(5, 5.5)).toBeNull();
+    expect(rpePercentage(5, 10.5)).toBeNull();
+  });
+});
+
+describe('estimateOneRepMax', () => {
+  it('applies each formula', () => {
+    expect(estimateOneRepMax(100, 5, 'epley')).toBeCloseTo(116.67, 2);
+    expect(estimateOneRepMax(100, 5, 'brzycki')).toBe(112.5);
+    expect(estimateOneRepMax(100, 5, 'rpe', 8)).toBeCloseTo(123.3, 1);
+    expect(estimateOneRepMax(140, 1, 'epley')).toBe(140);
+  });
+
+  it('falls back to Epley when the RPE is missing or off the chart', () => {
+    expect(estimateOneRepMax(100, 5, 'rpe')).toBe(estimateOneRepMax(100, 5, 'epley'));
+    expect(estimateOneRepMax(100, 5, 'rpe', 5)).toBe(estimateOneRepMax(100, 5, 'epley'));
+  });
+
+  it('gives no estimate for empty or long sets', () => {
+    expect(estimateOneRepMax(0, 5)).toBeNull();
+    expect(estimateOneRepMax(100, 0)).toBeNull();
+    expect(estimateOneRepMax(60, 20)).toBeNull();
+  });
+});
+
+describe('recordOneRepMax', () => {
+  const record: ExerciseRecord = {
+    id: 1, exerciseName: 'Bench Press', date: '2024-03-04', time: '18:00:00', count: 0, rpe: 8, note: '',
+    sets: [
+      { count: 1, weight: 150, unit: 'kg', rpe: null, warmup: true },
+      { count: 5, weight: 100, unit: 'kg', rpe: null, warmup: false },
+      { count: 5, weight: 225, unit: 'lbs', rpe: 9, warmup: false },
+    ],
+  };
+
+  it('takes the best working set across kg and lbs', () => {
+    const estimate = recordOneRepMax(record, 'kg');
+    expect(estimate?.set).toBe(record.sets?.[2]);
+    expect(estimate?.value).toBeCloseTo(102.06 * (1 + 5 / 30), 1);
+    expect(recordOneRepMax(record, 'lbs')?.value).toBeCloseTo(262.5, 1);
+  });
+
+  it('uses the record RPE for sets without their own', () => {
+    const single = { ...record, sets: record.sets?.slice(1, 2) };
+    expect(recordOneRepMax(single, 'kg', 'rpe')?.value).toBeCloseTo(100 / 0.811, 1);
+  });
+});
+
+describe('working weights', () => {
+  it('rounds to the increment', () => {
+    expect(roundToIncrement(101.3, 2.5)).toBe(102.5);
+    expect(roundToIncrement(33, 1.25)).toBe(32.5);
+    expect(roundToIncrement(101.3, 0)).toBe(101.3);
+  });
+
+  it('suggests a loadable weight for reps at an RPE', () => {
+    expect(suggestWorkingWeight(200, 5, 8, 'kg')).toBe(162.5);
+    expect(suggestWorkingWeight(400, 5, 8, 'lbs')).toBe(325);
+    expect(suggestWorkingWeight(200, 15, 8, 'kg')).toBeNull();
+  });
+});
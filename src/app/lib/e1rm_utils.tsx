@@ -0,0 +1,82 @@
+import { ExerciseRecord, RecordSet } from './indexdb_handler';
+import { getRecordSets, workingSets, convertWeight } from './record_utils';
+
+// Estimated one-rep max (e1RM) and the reverse: working weights for a target
+// rep count and RPE.
+
+export type E1RMFormula = 'epley' | 'brzycki' | 'rpe';
+
+export const E1RM_FORMULAS: { formula: E1RMFormula, label: string }[] = [
+  { formula: 'epley', label: 'Epley' },
+  { formula: 'brzycki', label: 'Brzycki' },
+  { formula: 'rpe', label: 'RPE table' },
+];
+
+// Sets above this many reps are too far from a single to estimate from
+export const MAX_ESTIMATE_REPS = 12;
+
+// Percentage of 1RM by reps and RPE (the RTS chart). Each half point of RPE
+// below 10 is worth half a rep, so the chart collapses into one sequence
+// indexed by half reps in reserve.
+const RPE_PERCENTAGES = [
+  100, 97.8, 95.5, 93.9, 92.2, 90.7, 89.2, 87.8, 86.3, 85.0, 83.7, 82.4, 81.1, 79.9, 78.6, 77.4,
+  76.2, 75.1, 73.9, 72.3, 70.7, 69.4, 68.0, 66.7, 65.3, 64.0, 62.6, 61.3, 59.9, 58.6, 57.4,
+];
+
+export const MIN_TABLE_RPE = 6;
+
+// Fraction of 1RM a set of `reps` at `rpe` is lifted at, or null outside the chart
+export function rpePercentage(reps: number, rpe: number): number | null {
+  if (reps < 1 || reps > MAX_ESTIMATE_REPS || rpe < MIN_TABLE_RPE || rpe > 10) return null;
+  const halfSteps = Math.round((reps - 1) * 2 + (10 - rpe) * 2);
+  return RPE_PERCENTAGES[halfSteps] / 100;
+}
+
+// e1RM of one set. The RPE formula needs an RPE; without one it falls back to Epley.
+export function estimateOneRepMax(weight: number, reps: number, formula: E1RMFormula = 'epley', rpe?: number | null): number | null {
+  if (weight <= 0 || reps <= 0 || reps > MAX_ESTIMATE_REPS) return null;
+
+  if (formula === 'rpe' && rpe !== null && rpe !== undefined) {
+    const percentage = rpePercentage(reps, rpe);
+    if (percentage) return weight / percentage;
+  }
+  if (reps === 1) return weight;
+  if (formula === 'brzycki') return weight * 36 / (37 - reps);
+  return weight * (1 + reps / 30);
+}
+
+export interface RecordEstimate {
+  value: number;
+  unit: 'kg' | 'lbs';
+  set: RecordSet;
+}
+
+// Best e1RM over the working sets of a record, converted to `unit`. Sets
+// without their own RPE use the record's.
+export function recordOneRepMax(record: ExerciseRecord, unit: 'kg' | 'lbs', formula: E1RMFormula = 'epley'): RecordEstimate | null {
+  let best: RecordEstimate | null = null;
+  for (const set of workingSets(getRecordSets(record))) {
+    if (!set.weight) continue;
+    const weight = convertWeight(set.weight, set.unit || 'lbs', unit);
+    const value = estimateOneRepMax(weight, set.count, formula, set.rpe ?? record.rpe);
+    if (value && (!best || value > best.value)) {
+      best = { value, unit, set };
+    }
+  }
+  return best;
+}
+
+// Smallest plate jump in each unit
+export const PLATE_INCREMENTS = { kg: 2.5, lbs: 5 };
+
+// Round to what can be loaded, in steps of the increment; a zero increment
+// leaves the weight as is. Trimmed to two decimals to drop float noise.
+export function roundToIncrement(weight: number, increment: number): number {
+  return Math.round((increment > 0 ? Math.round(weight / increment) * increment : weight) * 100) / 100;
+}
+
+// Working weight for `reps` at `rpe` from a 1RM, rounded to a loadable weight
+export function suggestWorkingWeight(oneRepMax: number, reps: number, rpe: number, unit: 'kg' | 'lbs'): number | null {
+  const percentage = rpePercentage(reps, rpe);
+  return percentage ? roundToIncrement(oneRepMax * percentage, PLATE_INCREMENTS[unit]) : null;
+}
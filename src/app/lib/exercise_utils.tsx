@@ -1,14 +1,14 @@
 import React from 'react';
-import { Exercise } from './indexdb_handler'
+import { Exercise, RecordSet } from './indexdb_handler'
 
 export function renderTypeBadge(type: Exercise['type']) {
   switch (type) {
     case 'strength':
-      return <span className="px-2 py-1 text-xs font-medium bg-blue-100 text-blue-800 rounded">Strength</span>
+      return <span className="px-2 py-1 text-xs font-medium bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 rounded">Strength</span>
     case 'cardio':
-      return <span className="px-2 py-1 text-xs font-medium bg-green-100 text-green-800 rounded">Cardio</span>
+      return <span className="px-2 py-1 text-xs font-medium bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200 rounded">Cardio</span>
     case 'core':
-      return <span className="px-2 py-1 text-xs font-medium bg-yellow-100 text-yellow-800 rounded">Core</span>
+      return <span className="px-2 py-1 text-xs font-medium bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 rounded">Core</span>
   }
 }
 
@@ -33,6 +33,28 @@ export function getDefaultCountDescription(type: Exercise['type']): string {
   }
 }
 
+// Split a default count into sets and a per-set count (reps or seconds)
+export function parseDefaultCount(type: Exercise['type'], count: string): { sets: number, count: number } {
+  if (type === 'strength') {
+    const match = count.match(/(\d+)s(\d+)r/);
+    if (match) {
+      const [, sets, reps] = match;
+      return { sets: parseInt(sets), count: parseInt(reps) };
+    }
+    return { sets: 1, count: NaN };
+  }
+  return { sets: 1, count: parseInt(count) };
+}
+
+// Default count for a new exercise, taken from the working sets of a logged workout
+export function defaultCountFromSets(type: Exercise['type'], sets: RecordSet[]): string {
+  const working = sets.filter(set => !set.warmup);
+  if (working.length === 0) {
+    return type === 'strength' ? '3s10r' : '60';
+  }
+  return type === 'strength' ? `${working.length}s${working[0].count}r` : `${working[0].count}`;
+}
+
 export function formatDefaultCount(type: Exercise['type'], count: string): string {
   switch (type) {
     case 'strength': {
@@ -1,9 +1,34 @@
+import { format } from 'date-fns';
+import {
+    legacySets, summarizeSets, getRecordSets, workingSets, predominantUnit, convertWeight, isValidRecordDate, isValidRecordTime,
+} from './record_utils';
+import { LATEST_VERSION, runMigrations } from './migrations';
+import { computePersonalRecords, PersonalRecord } from './pr_utils';
+import { recordOneRepMax, E1RMFormula } from './e1rm_utils';
+import { notifyPersonalRecords } from './pr_events';
+import { ProgressionRule } from './progression_utils';
+import { MuscleGroup, Equipment, STARTER_EXERCISE_DETAILS } from './muscle_utils';
+
 // Define interfaces for our data structures
 interface Exercise {
     name: string;
     type: 'strength' | 'cardio' | 'core';
     defaultCount: string;
     instruction: string;
+    restSeconds?: number; // Rest between sets; the app default when unset
+    primaryMuscles?: MuscleGroup[];
+    secondaryMuscles?: MuscleGroup[];
+    equipment?: Equipment;
+    bodyweight?: boolean; // Body weight is part of the load, e.g. pull-ups and dips
+    unilateral?: boolean; // Done one side at a time
+}
+
+interface RecordSet {
+    count: number; // reps for strength, seconds for cardio and core
+    weight?: number;
+    unit?: 'kg' | 'lbs';
+    rpe: number | null;
+    warmup: boolean;
 }
 
 interface ExerciseRecord {
@@ -11,6 +36,8 @@ interface ExerciseRecord {
     exerciseName: string;
     date: string;
     time: string;
+    sets: RecordSet[];
+    // Summary of the working sets, kept in sync with `sets` on save
     count: number;
     rpe: number | null;
     note: string;
@@ -18,9 +45,19 @@ interface ExerciseRecord {
     unit?: 'kg' | 'lbs';
 }
 
+// A record to save; `sets` defaults to a single set built from `count`
+type NewExerciseRecord = Omit<ExerciseRecord, 'id' | 'sets'> & { sets?: RecordSet[] };
+
 interface PlanExercise {
     name: string;
     count: number; // -1 means use default
+    progression?: ProgressionRule; // Strength only: works out the next target from past sessions
+}
+
+// A session moved to another day
+interface PostponedSession {
+    from: string; // yyyy-MM-dd
+    to: string;
 }
 
 interface Plan {
@@ -28,12 +65,39 @@ interface Plan {
     name: string;
     exercises: PlanExercise[];
     schedule: string; // e.g., "0101010" for Monday, Wednesday, Friday
+    interval?: { every: number; from: string }; // Every N days from a date, instead of the weekdays
+    dates?: string[]; // One-off sessions on top of the pattern
+    skipped?: string[]; // Pattern days that were skipped
+    postponed?: PostponedSession[];
+    rotation?: string; // Plans sharing a rotation take turns on their days, e.g. A/B
+    createdAt: string;
+    updatedAt?: string;
+}
+
+// One week of a program: which plans run and how hard. The plans' own
+// schedules place the sessions on weekdays.
+interface ProgramWeek {
+    planIds: number[];
+    label?: string; // e.g. "Heavy", "Deload"
+    volume: number; // Percent of the planned sets
+    intensity: number; // Percent of the suggested weights
+}
+
+// A multi-week block of training (a mesocycle). The current week follows from
+// startDate, so it advances by itself; moving startDate repeats or skips weeks.
+interface Program {
+    id?: number;
+    name: string;
+    startDate: string; // yyyy-MM-dd
+    weeks: ProgramWeek[];
+    repeat: boolean; // Start over after the last week instead of finishing
     createdAt: string;
     updatedAt?: string;
 }
 
 interface stats {
     totalWorkouts: number;
+    totalSets: number;
     averageCount: number;
     maxCount: number;
     minCount: number;
@@ -41,6 +105,20 @@ interface stats {
     firstWorkout: ExerciseRecord;
     improvement: number | string;
     averageRPE?: number;
+    // Weight stats are normalized to one unit, so kg and lbs history compare correctly
+    maxWeight?: WeightStat;
+    bestE1RM?: WeightStat;
+}
+
+interface WeightStat {
+    value: number;
+    unit: 'kg' | 'lbs';
+    recordId?: number;
+}
+
+interface StatsOptions {
+    formula?: E1RMFormula;
+    unit?: 'kg' | 'lbs'; // Defaults to the unit most records use
 }
 
 interface ExerciseStats {
@@ -52,13 +130,46 @@ interface ExerciseWithStats extends Exercise {
     stats: ExerciseStats['stats'];
 }
 
+// Everything in the database, e.g. a backup being restored
+interface StoreContents {
+    exercises: Exercise[];
+    records: ExerciseRecord[];
+    plans: Plan[];
+    programs: Program[];
+}
+
+// Starter exercise library shared by every storage backend
+const SAMPLE_EXERCISES: Exercise[] = ([
+    { name: 'Push-ups', type: 'strength', defaultCount: '3s10r', instruction: 'Keep your back straight and lower your chest to the ground' },
+    { name: 'Squats', type: 'strength', defaultCount: '3s15r', instruction: 'Keep your knees aligned with your toes' },
+    { name: 'Plank', type: 'core', defaultCount: '30', instruction: 'Hold position with straight back and tight core' },
+    { name: 'Jumping Jacks', type: 'cardio', defaultCount: '45', instruction: 'Jump with hands above head and feet apart' },
+    { name: 'Lunges', type: 'strength', defaultCount: '2s12r', instruction: 'Step forward and lower knee until both knees form 90-degree angles' },
+    { name: 'Pull-ups', type: 'strength', defaultCount: '3s8r', instruction: 'Pull chin above bar with controlled movement' },
+    { name: 'Mountain Climbers', type: 'cardio', defaultCount: '60', instruction: 'Alternate bringing knees to chest while in plank position' },
+    { name: 'Bicep Curls', type: 'strength', defaultCount: '3s12r', instruction: 'Keep elbows fixed and curl weights toward shoulders' },
+    { name: 'Burpees', type: 'cardio', defaultCount: '20', instruction: 'Drop to push-up, jump back up and reach overhead' },
+    { name: 'Russian Twists', type: 'core', defaultCount: '3', instruction: 'Rotate torso side to side while seated with feet elevated' },
+    { name: 'Deadlifts', type: 'strength', defaultCount: '3s10r', instruction: 'Keep back straight and push through heels when lifting' },
+    { name: 'High Knees', type: 'cardio', defaultCount: '45', instruction: 'Run in place bringing knees to hip height' },
+    { name: 'Dips', type: 'strength', defaultCount: '3s12r', instruction: 'Lower body between parallel bars until elbows reach 90 degrees' },
+    { name: 'Side Planks', type: 'core', defaultCount: '30', instruction: 'Stack feet and raise hip off ground with straight body line' },
+    { name: 'Bench Press', type: 'strength', defaultCount: '3s8r', instruction: 'Lower bar to chest and press upward with controlled movement' },
+    { name: 'Jump Rope', type: 'cardio', defaultCount: '2m', instruction: 'Maintain small jumps with wrists doing most of the work' },
+    { name: 'Leg Raises', type: 'core', defaultCount: '3s15r', instruction: 'Keep lower back pressed to floor while raising legs' },
+    { name: 'Shoulder Press', type: 'strength', defaultCount: '3s10r', instruction: 'Press weights overhead without arching lower back' },
+    { name: 'Box Jumps', type: 'cardio', defaultCount: '3', instruction: 'Jump onto box with soft landing, step back down' },
+    { name: 'Superman', type: 'core', defaultCount: '3', instruction: 'Lift arms and legs off ground simultaneously while lying on stomach' }
+] satisfies Exercise[]).map(exercise => ({ ...exercise, ...STARTER_EXERCISE_DETAILS[exercise.name] }));
+
 const ExerciseDB = {
     // Database configuration
     dbName: 'exerciseDB',
-    dbVersion: 1,
+    dbVersion: LATEST_VERSION,
     exerciseStore: 'exercises',
     recordStore: 'records',
     planStore: 'plans',
+    programStore: 'programs',
 
     // Core Database Functions
     // -----------------------
@@ -70,22 +181,30 @@ const ExerciseDB = {
 
             request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
                 const db = (event.target as IDBOpenDBRequest).result;
-                if (!db.objectStoreNames.contains(this.exerciseStore)) {
-                    db.createObjectStore(this.exerciseStore, { keyPath: 'name' });
-                }
-                if (!db.objectStoreNames.contains(this.recordStore)) {
-                    const recordStore = db.createObjectStore(this.recordStore, { keyPath: 'id', autoIncrement: true });
-                    recordStore.createIndex('exerciseNameIndex', 'exerciseName', { unique: false });
-                    recordStore.createIndex('dateIndex', 'date', { unique: false });
-                }
-                if (!db.objectStoreNames.contains(this.planStore)) {
-                    const planStore = db.createObjectStore(this.planStore, { keyPath: 'id', autoIncrement: true });
-                    planStore.createIndex('nameIndex', 'name', { unique: true });
-                }
+                const transaction = (event.target as IDBOpenDBRequest).transaction as IDBTransaction;
+                runMigrations(db, transaction, event.oldVersion, event.newVersion ?? this.dbVersion);
             };
 
-            request.onsuccess = (event: Event) => resolve((event.target as IDBOpenDBRequest).result);
-            request.onerror = (event: Event) => reject((event.target as IDBOpenDBRequest).error);
+            // Another tab still has an older version open and hasn't closed it
+            request.onblocked = () => {
+                reject(new Error(`${this.dbName} is being upgraded, but another tab is still using it. Please close other tabs of the app and reload.`));
+            };
+
+            request.onsuccess = (event: Event) => {
+                const db = (event.target as IDBOpenDBRequest).result;
+                // Step aside when another tab upgrades the database
+                db.onversionchange = () => db.close();
+                resolve(db);
+            };
+            request.onerror = (event: Event) => {
+                const error = (event.target as IDBOpenDBRequest).error;
+                // The stored database was written by a newer version of the app
+                if (error?.name === 'VersionError') {
+                    reject(new Error(`${this.dbName} is newer than version ${this.dbVersion}, which this app supports. Please update the app.`));
+                    return;
+                }
+                reject(error);
+            };
         });
     },
 
@@ -202,29 +321,6 @@ const ExerciseDB = {
 
     // Add multiple exercises at once
     async populateSampleExercises(): Promise<boolean> {
-        const sampleExercises: Exercise[] = [
-            { name: 'Push-ups', type: 'strength', defaultCount: '3s10r', instruction: 'Keep your back straight and lower your chest to the ground' },
-            { name: 'Squats', type: 'strength', defaultCount: '3s15r', instruction: 'Keep your knees aligned with your toes' },
-            { name: 'Plank', type: 'core', defaultCount: '30', instruction: 'Hold position with straight back and tight core' },
-            { name: 'Jumping Jacks', type: 'cardio', defaultCount: '45', instruction: 'Jump with hands above head and feet apart' },
-            { name: 'Lunges', type: 'strength', defaultCount: '2s12r', instruction: 'Step forward and lower knee until both knees form 90-degree angles' },
-            { name: 'Pull-ups', type: 'strength', defaultCount: '3s8r', instruction: 'Pull chin above bar with controlled movement' },
-            { name: 'Mountain Climbers', type: 'cardio', defaultCount: '60', instruction: 'Alternate bringing knees to chest while in plank position' },
-            { name: 'Bicep Curls', type: 'strength', defaultCount: '3s12r', instruction: 'Keep elbows fixed and curl weights toward shoulders' },
-            { name: 'Burpees', type: 'cardio', defaultCount: '20', instruction: 'Drop to push-up, jump back up and reach overhead' },
-            { name: 'Russian Twists', type: 'core', defaultCount: '3', instruction: 'Rotate torso side to side while seated with feet elevated' },
-            { name: 'Deadlifts', type: 'strength', defaultCount: '3s10r', instruction: 'Keep back straight and push through heels when lifting' },
-            { name: 'High Knees', type: 'cardio', defaultCount: '45', instruction: 'Run in place bringing knees to hip height' },
-            { name: 'Dips', type: 'strength', defaultCount: '3s12r', instruction: 'Lower body between parallel bars until elbows reach 90 degrees' },
-            { name: 'Side Planks', type: 'core', defaultCount: '30', instruction: 'Stack feet and raise hip off ground with straight body line' },
-            { name: 'Bench Press', type: 'strength', defaultCount: '3s8r', instruction: 'Lower bar to chest and press upward with controlled movement' },
-            { name: 'Jump Rope', type: 'cardio', defaultCount: '2m', instruction: 'Maintain small jumps with wrists doing most of the work' },
-            { name: 'Leg Raises', type: 'core', defaultCount: '3s15r', instruction: 'Keep lower back pressed to floor while raising legs' },
-            { name: 'Shoulder Press', type: 'strength', defaultCount: '3s10r', instruction: 'Press weights overhead without arching lower back' },
-            { name: 'Box Jumps', type: 'cardio', defaultCount: '3', instruction: 'Jump onto box with soft landing, step back down' },
-            { name: 'Superman', type: 'core', defaultCount: '3', instruction: 'Lift arms and legs off ground simultaneously while lying on stomach' }
-        ];
-
         const db = await this.open();
         const transaction = db.transaction([this.exerciseStore], 'readwrite');
         const store = transaction.objectStore(this.exerciseStore);
@@ -232,11 +328,11 @@ const ExerciseDB = {
         return new Promise((resolve, reject) => {
             let successCount = 0;
 
-            sampleExercises.forEach(exercise => {
+            SAMPLE_EXERCISES.forEach(exercise => {
                 const request = store.put(exercise);
                 request.onsuccess = () => {
                     successCount++;
-                    if (successCount === sampleExercises.length) {
+                    if (successCount === SAMPLE_EXERCISES.length) {
                         resolve(true);
                     }
                 };
@@ -251,30 +347,51 @@ const ExerciseDB = {
     // ---------------
 
     // Add an exercise record
-    async addRecord(record: Omit<ExerciseRecord, 'id'>): Promise<number> {
+    async addRecord(record: NewExerciseRecord): Promise<number> {
         if (typeof record.count !== 'number') {
             record.count = parseInt(record.count as unknown as string, 10);
         }
 
+        const sets = record.sets?.length ? record.sets : legacySets(record);
+        const summary = summarizeSets(sets);
+
         const db = await this.open();
-        return new Promise((resolve, reject) => {
+        const id = await new Promise<number>((resolve, reject) => {
             const transaction = db.transaction([this.recordStore], 'readwrite');
             const store = transaction.objectStore(this.recordStore);
             const request = store.add({
                 exerciseName: record.exerciseName,
-                date: record.date || new Date().toISOString().split('T')[0],
+                date: record.date || format(new Date(), 'yyyy-MM-dd'),
                 time: record.time || new Date().toTimeString().split(' ')[0],
-                count: record.count,
-                rpe: record.rpe || null,
+                sets,
+                count: summary.count,
+                rpe: summary.rpe,
                 note: record.note || '',
-                weight: record.weight || null,
-                unit: record.unit || 'lbs'
+                weight: summary.weight || null,
+                unit: summary.unit
             });
 
             request.onsuccess = (event: Event) => resolve((event.target as IDBRequest).result as number);
             request.onerror = (event: Event) => reject((event.target as IDBRequest).error);
             transaction.oncomplete = () => db.close();
         });
+
+        await notifyPersonalRecords(this, record.exerciseName, id);
+        return id;
+    },
+
+    // Get a single record by ID
+    async getRecord(recordId: number): Promise<ExerciseRecord | undefined> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction([this.recordStore], 'readonly');
+            const store = transaction.objectStore(this.recordStore);
+            const request = store.get(recordId);
+
+            request.onsuccess = (event: Event) => resolve((event.target as IDBRequest).result);
+            request.onerror = (event: Event) => reject((event.target as IDBRequest).error);
+            transaction.oncomplete = () => db.close();
+        });
     },
 
     // Get records for a specific exercise
@@ -307,6 +424,21 @@ const ExerciseDB = {
         });
     },
 
+    // Save a record under its own id, replacing any record with that id
+    async putRecord(record: ExerciseRecord): Promise<number> {
+        const sets = getRecordSets(record);
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction([this.recordStore], 'readwrite');
+            const store = transaction.objectStore(this.recordStore);
+            const request = store.put({ ...record, sets, ...summarizeSets(sets) });
+
+            request.onsuccess = (event: Event) => resolve((event.target as IDBRequest).result as number);
+            request.onerror = (event: Event) => reject((event.target as IDBRequest).error);
+            transaction.oncomplete = () => db.close();
+        });
+    },
+
     // Get all records
     async getAllRecords(): Promise<ExerciseRecord[]> {
         const db = await this.open();
@@ -462,7 +594,7 @@ const ExerciseDB = {
     // --------------------------------
 
     // Get statistics for an exercise
-    async getExerciseStats(exerciseName: string): Promise<ExerciseStats> {
+    async getExerciseStats(exerciseName: string, options: StatsOptions = {}): Promise<ExerciseStats> {
         const records = await this.getRecordsByExercise(exerciseName);
 
         if (records.length === 0) {
@@ -472,12 +604,16 @@ const ExerciseDB = {
             };
         }
 
-        // Get all count values
-        const counts = records.map(record => record.count);
+        // Get the count of every working set
+        const sets = records.flatMap(record => workingSets(getRecordSets(record)));
+        const counts = sets.length > 0 ? sets.map(set => set.count) : records.map(record => record.count);
+        const bestCount = (record: ExerciseRecord) =>
+            Math.max(...workingSets(getRecordSets(record)).map(set => set.count), 0);
 
         // Calculate basic statistics
-        const stats = {
+        const stats: stats = {
             totalWorkouts: records.length,
+            totalSets: sets.length,
             averageCount: counts.reduce((sum, count) => sum + count, 0) / counts.length,
             maxCount: Math.max(...counts),
             minCount: Math.min(...counts),
@@ -487,23 +623,48 @@ const ExerciseDB = {
             averageRPE: 0
         };
 
-        // Calculate improvement from first to best
-        if (stats.firstWorkout && stats.maxCount > stats.firstWorkout.count) {
-            stats.improvement = Number(((stats.maxCount - stats.firstWorkout.count) / stats.firstWorkout.count * 100).toFixed(1));
+        // Calculate improvement from the best set of the first workout to the best set overall
+        const firstBest = stats.firstWorkout ? bestCount(stats.firstWorkout) : 0;
+        if (firstBest > 0 && stats.maxCount > firstBest) {
+            stats.improvement = Number(((stats.maxCount - firstBest) / firstBest * 100).toFixed(1));
         }
 
-        // Get average RPE if available
-        const rpeCounts = records.filter(r => r.rpe !== null && r.rpe !== undefined).map(r => r.rpe as number);
+        // Get average RPE over the working sets if available
+        const rpeCounts = sets.filter(s => s.rpe !== null && s.rpe !== undefined).map(s => s.rpe as number);
         if (rpeCounts.length > 0) {
             stats.averageRPE = rpeCounts.reduce((sum, rpe) => sum + rpe, 0) / rpeCounts.length;
         }
 
+        // Heaviest set and best e1RM, with kg and lbs sets converted to one unit before comparing
+        const unit = options.unit || predominantUnit(records);
+        for (const record of records) {
+            for (const set of workingSets(getRecordSets(record))) {
+                const weight = set.weight ? convertWeight(set.weight, set.unit || 'lbs', unit) : 0;
+                if (weight > 0 && (!stats.maxWeight || weight > stats.maxWeight.value)) {
+                    stats.maxWeight = { value: weight, unit, recordId: record.id };
+                }
+            }
+
+            const estimate = recordOneRepMax(record, unit, options.formula);
+            if (estimate && (!stats.bestE1RM || estimate.value > stats.bestE1RM.value)) {
+                stats.bestE1RM = { value: estimate.value, unit, recordId: record.id };
+            }
+        }
+
         return {
             exerciseName,
             stats
         };
     },
 
+    // Every PR of an exercise, oldest first. Derived from the records on each
+    // call, so edits and deletes are always reflected.
+    async getPersonalRecords(exerciseName: string): Promise<PersonalRecord[]> {
+        const exercise = await this.getExercise(exerciseName);
+        const records = await this.getRecordsByExercise(exerciseName);
+        return computePersonalRecords(records, exercise?.type || 'strength');
+    },
+
     // Get all exercises with statistics
     async getExercisesWithStats(): Promise<ExerciseWithStats[]> {
         const exercises = await this.getAllExercises();
@@ -579,34 +740,78 @@ const ExerciseDB = {
         }
     },
 
-    // Update an exercise
+    // Update an exercise. A rename also rewrites the records and plans that
+    // refer to the old name, all in one transaction.
     async updateExercise(oldName: string, updatedExercise: Exercise): Promise<boolean> {
         const db = await this.open();
         return new Promise((resolve, reject) => {
-            const transaction = db.transaction([this.exerciseStore], 'readwrite');
+            const transaction = db.transaction([this.exerciseStore, this.recordStore, this.planStore], 'readwrite');
             const store = transaction.objectStore(this.exerciseStore);
+            const renamed = oldName !== updatedExercise.name;
 
             // First delete the old exercise
             const deleteRequest = store.delete(oldName);
 
             deleteRequest.onsuccess = () => {
-                // Then add the updated exercise
+                // Then add the updated exercise; fails if the new name is taken
                 const addRequest = store.add(updatedExercise);
-                addRequest.onsuccess = () => resolve(true);
-                addRequest.onerror = (event: Event) => reject((event.target as IDBRequest).error);
+                addRequest.onsuccess = () => {
+                    if (renamed) {
+                        this.renameExerciseReferences(transaction, oldName, updatedExercise.name);
+                    }
+                };
             };
 
-            deleteRequest.onerror = (event: Event) => reject((event.target as IDBRequest).error);
-            transaction.oncomplete = () => db.close();
+            transaction.oncomplete = () => {
+                db.close();
+                resolve(true);
+            };
+            transaction.onabort = () => {
+                db.close();
+                reject(transaction.error);
+            };
         });
     },
 
-    async updateRecord(id: number | undefined, record: ExerciseRecord): Promise<boolean> {
+    // Point records and plans at a renamed exercise, inside the caller's transaction
+    renameExerciseReferences(transaction: IDBTransaction, oldName: string, newName: string): void {
+        const recordIndex = transaction.objectStore(this.recordStore).index('exerciseNameIndex');
+        const recordRequest = recordIndex.openCursor(IDBKeyRange.only(oldName));
+        recordRequest.onsuccess = () => {
+            const cursor = recordRequest.result;
+            if (!cursor) return;
+            cursor.update({ ...cursor.value, exerciseName: newName });
+            cursor.continue();
+        };
+
+        const planRequest = transaction.objectStore(this.planStore).openCursor();
+        planRequest.onsuccess = () => {
+            const cursor = planRequest.result;
+            if (!cursor) return;
+            const plan = cursor.value as Plan;
+            if (plan.exercises.some(e => e.name === oldName)) {
+                cursor.update({
+                    ...plan,
+                    exercises: plan.exercises.map(e => e.name === oldName ? { ...e, name: newName } : e),
+                });
+            }
+            cursor.continue();
+        };
+    },
+
+    async updateRecord(id: number | undefined, record: Partial<ExerciseRecord>): Promise<boolean> {
         if (!id) {
             throw new Error('Record ID is required');
         }
+        // A record moves to another day by changing its date; dateIndex follows on put
+        if (record.date !== undefined && !isValidRecordDate(record.date)) {
+            throw new Error(`Invalid record date: ${record.date}`);
+        }
+        if (record.time !== undefined && !isValidRecordTime(record.time)) {
+            throw new Error(`Invalid record time: ${record.time}`);
+        }
         const db = await this.open();
-        return new Promise((resolve, reject) => {
+        const exerciseName = await new Promise<string>((resolve, reject) => {
             const transaction = db.transaction([this.recordStore], 'readwrite');
             const store = transaction.objectStore(this.recordStore);
             const request = store.get(id);
@@ -619,15 +824,21 @@ const ExerciseDB = {
                 }
 
                 const updatedRecord = { ...existingRecord, ...record };
+                if (record.sets?.length) {
+                    Object.assign(updatedRecord, summarizeSets(record.sets));
+                }
                 const updateRequest = store.put(updatedRecord);
 
-                updateRequest.onsuccess = () => resolve(true);
+                updateRequest.onsuccess = () => resolve(updatedRecord.exerciseName);
                 updateRequest.onerror = (event: Event) => reject((event.target as IDBRequest).error);
             };
 
             request.onerror = (event: Event) => reject((event.target as IDBRequest).error);
             transaction.oncomplete = () => db.close();
         });
+
+        await notifyPersonalRecords(this, exerciseName, id);
+        return true;
     },
     // Clear all record
     async clearAllRecords(): Promise<boolean> {
@@ -653,14 +864,14 @@ const ExerciseDB = {
             const twoDaysAgo = new Date(today);
             twoDaysAgo.setDate(twoDaysAgo.getDate() - 2);
 
-            const sampleRecords: ExerciseRecord[] = [
+            const sampleRecords: NewExerciseRecord[] = [
                 // Today's records
                 {
                     exerciseName: 'Push-ups',
                     count: 20,
                     rpe: 7,
                     note: 'Morning session',
-                    date: today.toISOString().split('T')[0],
+                    date: format(today, 'yyyy-MM-dd'),
                     time: '07:30:00',
                     weight: undefined,
                     unit: 'lbs'
@@ -670,7 +881,7 @@ const ExerciseDB = {
                     count: 1800,
                     rpe: 6,
                     note: 'Easy morning jog',
-                    date: today.toISOString().split('T')[0],
+                    date: format(today, 'yyyy-MM-dd'),
                     time: '08:15:00',
                     weight: undefined,
                     unit: 'lbs'
@@ -680,7 +891,7 @@ const ExerciseDB = {
                     count: 8,
                     rpe: 8,
                     note: 'PR attempt',
-                    date: today.toISOString().split('T')[0],
+                    date: format(today, 'yyyy-MM-dd'),
                     time: '16:45:00',
                     weight: 185,
                     unit: 'lbs'
@@ -690,7 +901,7 @@ const ExerciseDB = {
                     count: 12,
                     rpe: 7,
                     note: 'Evening workout',
-                    date: today.toISOString().split('T')[0],
+                    date: format(today, 'yyyy-MM-dd'),
                     time: '17:30:00',
                     weight: 225,
                     unit: 'lbs'
@@ -700,7 +911,7 @@ const ExerciseDB = {
                     count: 60,
                     rpe: 6,
                     note: 'Core finisher',
-                    date: today.toISOString().split('T')[0],
+                    date: format(today, 'yyyy-MM-dd'),
                     time: '18:00:00',
                     weight: undefined,
                     unit: 'lbs'
@@ -712,7 +923,7 @@ const ExerciseDB = {
                     count: 10,
                     rpe: 8,
                     note: 'Morning workout',
-                    date: yesterday.toISOString().split('T')[0],
+                    date: format(yesterday, 'yyyy-MM-dd'),
                     time: '08:00:00',
                     weight: undefined,
                     unit: 'lbs'
@@ -722,7 +933,7 @@ const ExerciseDB = {
                     count: 5,
                     rpe: 9,
                     note: 'Heavy singles',
-                    date: yesterday.toISOString().split('T')[0],
+                    date: format(yesterday, 'yyyy-MM-dd'),
                     time: '17:00:00',
                     weight: 315,
                     unit: 'lbs'
@@ -734,7 +945,7 @@ const ExerciseDB = {
                     count: 2400,
                     rpe: 7,
                     note: 'Long distance run',
-                    date: twoDaysAgo.toISOString().split('T')[0],
+                    date: format(twoDaysAgo, 'yyyy-MM-dd'),
                     time: '07:00:00',
                     weight: undefined,
                     unit: 'lbs'
@@ -744,7 +955,7 @@ const ExerciseDB = {
                     count: 15,
                     rpe: 6,
                     note: 'Evening session',
-                    date: twoDaysAgo.toISOString().split('T')[0],
+                    date: format(twoDaysAgo, 'yyyy-MM-dd'),
                     time: '19:30:00',
                     weight: undefined,
                     unit: 'lbs'
@@ -763,19 +974,128 @@ const ExerciseDB = {
     },
 
     // Clear all plans
+    // Programs are built from plans, so they go too
     async clearAllPlans(): Promise<boolean> {
         const db = await this.open()
         return new Promise((resolve, reject) => {
-            const transaction = db.transaction(this.planStore, 'readwrite')
-            const store = transaction.objectStore(this.planStore)
-            const request = store.clear()
+            const transaction = db.transaction([this.planStore, this.programStore], 'readwrite')
+            transaction.objectStore(this.planStore).clear()
+            transaction.objectStore(this.programStore).clear()
 
-            request.onsuccess = () => resolve(true)
-            request.onerror = (event: Event) => reject((event.target as IDBRequest).error)
-            transaction.oncomplete = () => db.close()
+            transaction.oncomplete = () => {
+                db.close()
+                resolve(true)
+            }
+            transaction.onerror = (event: Event) => reject((event.target as IDBRequest).error)
         })
     },
 
+    // Program Functions
+    // ----------------
+
+    async getAllPrograms(): Promise<Program[]> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(this.programStore, 'readonly');
+            const store = transaction.objectStore(this.programStore);
+            const request = store.getAll();
+
+            request.onsuccess = (event: Event) => resolve((event.target as IDBRequest).result);
+            request.onerror = (event: Event) => reject((event.target as IDBRequest).error);
+            transaction.oncomplete = () => db.close();
+        });
+    },
+
+    async addProgram(program: Omit<Program, 'id'>): Promise<number> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(this.programStore, 'readwrite');
+            const store = transaction.objectStore(this.programStore);
+            const request = store.add({
+                ...program,
+                createdAt: new Date().toISOString(),
+            });
+
+            request.onsuccess = (event: Event) => resolve((event.target as IDBRequest).result as number);
+            request.onerror = (event: Event) => reject((event.target as IDBRequest).error);
+            transaction.oncomplete = () => db.close();
+        });
+    },
+
+    async updateProgram(id: number, program: Program): Promise<boolean> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(this.programStore, 'readwrite');
+            const store = transaction.objectStore(this.programStore);
+            const request = store.get(id);
+
+            request.onsuccess = (event: Event) => {
+                const existingProgram = (event.target as IDBRequest).result as Program;
+                if (!existingProgram) {
+                    reject(new Error('Program not found'));
+                    return;
+                }
+
+                const updateRequest = store.put({ ...existingProgram, ...program, id });
+                updateRequest.onsuccess = () => resolve(true);
+                updateRequest.onerror = (event: Event) => reject((event.target as IDBRequest).error);
+            };
+
+            request.onerror = (event: Event) => reject((event.target as IDBRequest).error);
+            transaction.oncomplete = () => db.close();
+        });
+    },
+
+    async deleteProgram(id: number): Promise<void> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(this.programStore, 'readwrite');
+            const store = transaction.objectStore(this.programStore);
+            const request = store.delete(id);
+
+            request.onsuccess = () => resolve();
+            request.onerror = (event: Event) => reject((event.target as IDBRequest).error);
+            transaction.oncomplete = () => db.close();
+        });
+    },
+
+    // Backup Functions
+    // ---------------
+
+    // Swap everything for the given contents in one transaction, so a failed
+    // write leaves the old data in place. Plans keep their ids, which programs
+    // point at.
+    async replaceAllData(contents: StoreContents): Promise<boolean> {
+        const stores = [this.exerciseStore, this.recordStore, this.planStore, this.programStore];
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(stores, 'readwrite');
+            transaction.oncomplete = () => {
+                db.close();
+                resolve(true);
+            };
+            transaction.onabort = () => {
+                db.close();
+                reject(transaction.error || new Error('Restore was aborted'));
+            };
+
+            try {
+                stores.forEach(store => transaction.objectStore(store).clear());
+                contents.exercises.forEach(exercise => transaction.objectStore(this.exerciseStore).put(exercise));
+                contents.records.forEach(record => {
+                    const sets = getRecordSets(record);
+                    transaction.objectStore(this.recordStore).put({ ...record, sets, ...summarizeSets(sets) });
+                });
+                contents.plans.forEach(plan => transaction.objectStore(this.planStore).put(plan));
+                contents.programs.forEach(program => transaction.objectStore(this.programStore).put(program));
+            } catch (error) {
+                // A bad key throws here rather than failing its request
+                transaction.abort();
+                reject(error);
+            }
+        });
+    },
+
 };
 
 // Helper Functions
@@ -824,7 +1144,7 @@ async function addExerciseRecord(
         count,
         rpe,
         note,
-        date: date || new Date().toISOString().split('T')[0],
+        date: date || format(new Date(), 'yyyy-MM-dd'),
         time: time || new Date().toTimeString().split(' ')[0]
     };
 
@@ -868,10 +1188,11 @@ async function getExerciseProgress(exerciseName: string): Promise<ExerciseStats
 
 export {
     ExerciseDB,
+    SAMPLE_EXERCISES,
     initializeExerciseDatabase,
     addExerciseRecord,
     deleteExerciseAndRecords,
     getExerciseProgress,
 };
 
-export type { Exercise, ExerciseRecord, Plan, stats, ExerciseStats, ExerciseWithStats };
\ No newline at end of file
+export type { Exercise, RecordSet, ExerciseRecord, NewExerciseRecord, PlanExercise, PostponedSession, Plan, ProgramWeek, Program, stats, WeightStat, StatsOptions, ExerciseStats, ExerciseWithStats, StoreContents };
\ No newline at end of file
@@ -0,0 +1,105 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ExerciseDB } from './indexdb_handler';
+import { LATEST_VERSION, MIGRATIONS, runMigrations } from './migrations';
+
+// Open the database at an older version with the migrations of that time, then
+// run `seed` in the same upgrade, as an older release of the app would have
+function createDatabase(version: number, seed: (transaction: IDBTransaction) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(ExerciseDB.dbName, version);
+        request.onupgradeneeded = () => {
+            const transaction = request.transaction as IDBTransaction;
+            runMigrations(request.result, transaction, 0, version);
+            seed(transaction);
+        };
+        request.onsuccess = () => {
+            request.result.close();
+            resolve();
+        };
+        request.onerror = () => reject(request.error);
+    });
+}
+
+// Version and rows of the stored database, read without upgrading it
+function readDatabase(): Promise<{ version: number, records: unknown[], exercises: unknown[] }> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(ExerciseDB.dbName);
+        request.onsuccess = () => {
+            const db = request.result;
+            const transaction = db.transaction(['records', 'exercises'], 'readonly');
+            const records = transaction.objectStore('records').getAll();
+            const exercises = transaction.objectStore('exercises').getAll();
+            transaction.oncomplete = () => {
+                db.close();
+                resolve({ version: db.version, records: records.result, exercises: exercises.result });
+            };
+        };
+        request.onerror = () => reject(request.error);
+    });
+}
+
+const seedVersion1 = (transaction: IDBTransaction) => {
+    transaction.objectStore('exercises').put({ name: 'Push-ups', type: 'strength', defaultCount: '3s10r' });
+    transaction.objectStore('records').put({
+        exerciseName: 'Push-ups', date: '2024-03-01', time: '08:00:00', count: 12, weight: 20, unit: 'kg', rpe: 8, note: '',
+    });
+    transaction.objectStore('records').put({
+        exerciseName: 'Push-ups', date: '2024-03-02', time: '08:00:00', count: 15, rpe: null, note: '',
+    });
+};
+
+beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('IndexedDB migrations', () => {
+    it('upgrades a version 1 database with single-count records to the latest version', async () => {
+        await createDatabase(1, seedVersion1);
+
+        const records = await ExerciseDB.getAllRecords();
+        expect(records.map(record => record.sets)).toEqual([
+            [{ count: 12, weight: 20, unit: 'kg', rpe: 8, warmup: false }],
+            [{ count: 15, weight: undefined, unit: 'lbs', rpe: null, warmup: false }],
+        ]);
+        expect(await ExerciseDB.getAllPrograms()).toEqual([]);
+        expect((await ExerciseDB.getExercise('Push-ups'))?.primaryMuscles).toEqual(['chest']);
+        expect((await readDatabase()).version).toBe(LATEST_VERSION);
+    });
+
+    it('refuses to open a database written by a newer version of the app', async () => {
+        await createDatabase(1, () => {});
+        await new Promise<void>((resolve, reject) => {
+            const request = indexedDB.open(ExerciseDB.dbName, LATEST_VERSION + 1);
+            request.onsuccess = () => {
+                request.result.close();
+                resolve();
+            };
+            request.onerror = () => reject(request.error);
+        });
+
+        await expect(ExerciseDB.open()).rejects.toThrow(/newer than version/);
+    });
+
+    it('leaves the database untouched when a migration fails', async () => {
+        await createDatabase(1, seedVersion1);
+        const before = await readDatabase();
+        vi.spyOn(MIGRATIONS[MIGRATIONS.length - 1], 'migrate').mockImplementation(() => {
+            throw new Error('Migration failed');
+        });
+
+        await expect(ExerciseDB.open()).rejects.toThrow();
+
+        const after = await readDatabase();
+        expect(after.version).toBe(1);
+        expect(after.records).toEqual(before.records);
+        expect(after.exercises).toEqual(before.exercises);
+    });
+});
@@ -0,0 +1,121 @@
+import { legacySets } from './record_utils';
+import { STARTER_EXERCISE_DETAILS, ExerciseDetails } from './muscle_utils';
+
+// IndexedDB schema migrations. Each entry upgrades the database from the
+// previous version to its own and runs inside the versionchange transaction,
+// so a failing migration leaves the database at its old version. Append new
+// migrations at the end; never edit one that has shipped.
+
+interface Migration {
+    version: number;
+    description: string;
+    migrate(db: IDBDatabase, transaction: IDBTransaction): void;
+}
+
+// Rewrite every row of a store. Returning undefined leaves the row unchanged.
+function transformStore<T>(transaction: IDBTransaction, storeName: string, transform: (value: T) => T | undefined): void {
+    const request = transaction.objectStore(storeName).openCursor();
+    request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const updated = transform(cursor.value as T);
+        if (updated !== undefined) {
+            cursor.update(updated);
+        }
+        cursor.continue();
+    };
+}
+
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Create exercise, record and plan stores',
+        migrate(db) {
+            if (!db.objectStoreNames.contains('exercises')) {
+                db.createObjectStore('exercises', { keyPath: 'name' });
+            }
+            if (!db.objectStoreNames.contains('records')) {
+                const recordStore = db.createObjectStore('records', { keyPath: 'id', autoIncrement: true });
+                recordStore.createIndex('exerciseNameIndex', 'exerciseName', { unique: false });
+                recordStore.createIndex('dateIndex', 'date', { unique: false });
+            }
+            if (!db.objectStoreNames.contains('plans')) {
+                const planStore = db.createObjectStore('plans', { keyPath: 'id', autoIncrement: true });
+                planStore.createIndex('nameIndex', 'name', { unique: true });
+            }
+        },
+    },
+    {
+        version: 2,
+        description: 'Move record counts into a list of sets',
+        migrate(db, transaction) {
+            transformStore<{ sets?: unknown[] } & Parameters<typeof legacySets>[0]>(transaction, 'records', record =>
+                record.sets ? undefined : { ...record, sets: legacySets(record) }
+            );
+        },
+    },
+    {
+        version: 3,
+        description: 'Create program store',
+        migrate(db) {
+            if (!db.objectStoreNames.contains('programs')) {
+                const programStore = db.createObjectStore('programs', { keyPath: 'id', autoIncrement: true });
+                programStore.createIndex('nameIndex', 'name', { unique: true });
+            }
+        },
+    },
+    {
+        version: 4,
+        description: 'Add muscle groups and equipment to the starter exercises',
+        migrate(db, transaction) {
+            // The new exercise fields are optional, so other exercises are left as they are
+            transformStore<{ name: string } & ExerciseDetails>(transaction, 'exercises', exercise => {
+                const details = STARTER_EXERCISE_DETAILS[exercise.name];
+                if (!details || exercise.primaryMuscles || exercise.equipment) return undefined;
+                return { ...exercise, ...details };
+            });
+        },
+    },
+];
+
+// Versions must strictly increase so the registry reads as a history
+MIGRATIONS.forEach((migration, index) => {
+    if (index > 0 && migration.version <= MIGRATIONS[index - 1].version) {
+        throw new Error(`Migration ${migration.version} is out of order`);
+    }
+});
+
+const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Run every migration newer than oldVersion, up to newVersion. Returns the
+// versions that ran.
+function runMigrations(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number, newVersion: number): number[] {
+    if (newVersion > LATEST_VERSION) {
+        throw new Error(`Cannot upgrade to version ${newVersion}, the latest known version is ${LATEST_VERSION}`);
+    }
+
+    const ran: number[] = [];
+    for (const migration of MIGRATIONS) {
+        if (migration.version <= oldVersion || migration.version > newVersion) continue;
+
+        try {
+            migration.migrate(db, transaction);
+        } catch (error) {
+            console.error(`Migration ${migration.version} (${migration.description}) failed:`, error);
+            transaction.abort();
+            throw error;
+        }
+        console.log(`Migrated ${db.name} to version ${migration.version}: ${migration.description}`);
+        ran.push(migration.version);
+    }
+    return ran;
+}
+
+export {
+    MIGRATIONS,
+    LATEST_VERSION,
+    runMigrations,
+    transformStore,
+};
+
+export type { Migration };
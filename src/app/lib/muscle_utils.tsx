@@ -0,0 +1,91 @@
+import { Exercise } from './indexdb_handler';
+
+// What an exercise works and what it's done with. Every field is optional:
+// exercises saved before these existed, and ones nobody has filled in, simply
+// have no details.
+
+export type MuscleGroup =
+  | 'chest' | 'back' | 'shoulders' | 'biceps' | 'triceps' | 'forearms'
+  | 'abs' | 'obliques' | 'lowerBack' | 'glutes' | 'quads' | 'hamstrings' | 'calves';
+
+export type Equipment = 'barbell' | 'dumbbell' | 'machine' | 'bodyweight' | 'band';
+
+export type ExerciseDetails = Pick<Exercise, 'primaryMuscles' | 'secondaryMuscles' | 'equipment' | 'bodyweight' | 'unilateral'>;
+
+export const MUSCLE_GROUPS: { group: MuscleGroup, label: string }[] = [
+  { group: 'chest', label: 'Chest' },
+  { group: 'back', label: 'Back' },
+  { group: 'shoulders', label: 'Shoulders' },
+  { group: 'biceps', label: 'Biceps' },
+  { group: 'triceps', label: 'Triceps' },
+  { group: 'forearms', label: 'Forearms' },
+  { group: 'abs', label: 'Abs' },
+  { group: 'obliques', label: 'Obliques' },
+  { group: 'lowerBack', label: 'Lower back' },
+  { group: 'glutes', label: 'Glutes' },
+  { group: 'quads', label: 'Quads' },
+  { group: 'hamstrings', label: 'Hamstrings' },
+  { group: 'calves', label: 'Calves' },
+];
+
+export const EQUIPMENT: { equipment: Equipment, label: string }[] = [
+  { equipment: 'barbell', label: 'Barbell' },
+  { equipment: 'dumbbell', label: 'Dumbbell' },
+  { equipment: 'machine', label: 'Machine' },
+  { equipment: 'bodyweight', label: 'Bodyweight' },
+  { equipment: 'band', label: 'Band' },
+];
+
+export function muscleLabel(group: MuscleGroup): string {
+  return MUSCLE_GROUPS.find(m => m.group === group)?.label || group;
+}
+
+export function equipmentLabel(equipment: Equipment): string {
+  return EQUIPMENT.find(e => e.equipment === equipment)?.label || equipment;
+}
+
+export function isMuscleGroup(value: unknown): value is MuscleGroup {
+  return MUSCLE_GROUPS.some(m => m.group === value);
+}
+
+export function isEquipment(value: unknown): value is Equipment {
+  return EQUIPMENT.some(e => e.equipment === value);
+}
+
+// Every muscle group the exercise works, primary ones first
+export function exerciseMuscles(exercise: Exercise): MuscleGroup[] {
+  return [...(exercise.primaryMuscles || []), ...(exercise.secondaryMuscles || [])];
+}
+
+// e.g. "Chest, Triceps · Barbell · Per side"
+export function formatExerciseDetails(exercise: Exercise): string {
+  const parts: string[] = [];
+  const muscles = exerciseMuscles(exercise);
+  if (muscles.length > 0) parts.push(muscles.map(muscleLabel).join(', '));
+  if (exercise.equipment) parts.push(equipmentLabel(exercise.equipment));
+  if (exercise.unilateral) parts.push('Per side');
+  return parts.join(' · ');
+}
+
+// Details of the starter exercises, by name
+export const STARTER_EXERCISE_DETAILS: Record<string, ExerciseDetails> = {
+  'Push-ups': { primaryMuscles: ['chest'], secondaryMuscles: ['triceps', 'shoulders'], equipment: 'bodyweight', bodyweight: true },
+  'Squats': { primaryMuscles: ['quads', 'glutes'], secondaryMuscles: ['hamstrings'], equipment: 'bodyweight', bodyweight: true },
+  'Plank': { primaryMuscles: ['abs'], secondaryMuscles: ['obliques', 'shoulders'], equipment: 'bodyweight' },
+  'Jumping Jacks': { equipment: 'bodyweight' },
+  'Lunges': { primaryMuscles: ['quads', 'glutes'], secondaryMuscles: ['hamstrings'], equipment: 'bodyweight', bodyweight: true, unilateral: true },
+  'Pull-ups': { primaryMuscles: ['back'], secondaryMuscles: ['biceps', 'forearms'], equipment: 'bodyweight', bodyweight: true },
+  'Mountain Climbers': { equipment: 'bodyweight' },
+  'Bicep Curls': { primaryMuscles: ['biceps'], secondaryMuscles: ['forearms'], equipment: 'dumbbell' },
+  'Burpees': { equipment: 'bodyweight' },
+  'Russian Twists': { primaryMuscles: ['obliques'], secondaryMuscles: ['abs'], equipment: 'bodyweight' },
+  'Deadlifts': { primaryMuscles: ['hamstrings', 'glutes', 'lowerBack'], secondaryMuscles: ['back', 'forearms'], equipment: 'barbell' },
+  'High Knees': { equipment: 'bodyweight' },
+  'Dips': { primaryMuscles: ['triceps', 'chest'], secondaryMuscles: ['shoulders'], equipment: 'bodyweight', bodyweight: true },
+  'Side Planks': { primaryMuscles: ['obliques'], secondaryMuscles: ['abs'], equipment: 'bodyweight', unilateral: true },
+  'Bench Press': { primaryMuscles: ['chest'], secondaryMuscles: ['triceps', 'shoulders'], equipment: 'barbell' },
+  'Leg Raises': { primaryMuscles: ['abs'], equipment: 'bodyweight' },
+  'Shoulder Press': { primaryMuscles: ['shoulders'], secondaryMuscles: ['triceps'], equipment: 'dumbbell' },
+  'Box Jumps': { primaryMuscles: ['quads', 'glutes'], secondaryMuscles: ['calves'], equipment: 'bodyweight' },
+  'Superman': { primaryMuscles: ['lowerBack'], secondaryMuscles: ['glutes'], equipment: 'bodyweight' },
+};
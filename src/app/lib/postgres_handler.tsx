@@ -0,0 +1,448 @@
+import { Pool } from 'pg'
+import { format } from 'date-fns'
+import { Exercise, ExerciseRecord, NewExerciseRecord, Plan, Program, StoreContents, SAMPLE_EXERCISES } from './indexdb_handler'
+import { legacySets, summarizeSets, getRecordSets, isValidRecordDate, isValidRecordTime } from './record_utils'
+
+// Server-side storage used by the /api/db route. Rows keep their lookup
+// columns (name, exercise_name, date) next to a jsonb copy of the object so
+// new fields on the shared interfaces don't need a schema change.
+
+// One pool for the server's DATABASE_URL. The connection string never comes
+// from the browser.
+let pool: Pool | null = null;
+let schemaReady: Promise<void> | null = null;
+
+function getPool(): Pool {
+    if (!pool) {
+        const connectionString = process.env.DATABASE_URL;
+        if (!connectionString) {
+            throw new Error('DATABASE_URL is not set');
+        }
+        pool = new Pool({ connectionString });
+    }
+    return pool;
+}
+
+// Create tables on first use of the pool
+function ensureSchema(pool: Pool): Promise<void> {
+    if (!schemaReady) {
+        const ready = pool.query(`
+            CREATE TABLE IF NOT EXISTS exercises (
+                name TEXT PRIMARY KEY,
+                data JSONB NOT NULL
+            );
+            CREATE TABLE IF NOT EXISTS records (
+                id SERIAL PRIMARY KEY,
+                exercise_name TEXT NOT NULL,
+                date TEXT NOT NULL,
+                data JSONB NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS records_exercise_name_idx ON records (exercise_name);
+            CREATE INDEX IF NOT EXISTS records_date_idx ON records (date);
+            CREATE TABLE IF NOT EXISTS plans (
+                id SERIAL PRIMARY KEY,
+                name TEXT NOT NULL UNIQUE,
+                data JSONB NOT NULL
+            );
+            CREATE TABLE IF NOT EXISTS programs (
+                id SERIAL PRIMARY KEY,
+                name TEXT NOT NULL UNIQUE,
+                data JSONB NOT NULL
+            );
+        `).then(() => undefined);
+        ready.catch(() => { schemaReady = null; });
+        schemaReady = ready;
+    }
+    return schemaReady;
+}
+
+interface RecordRow {
+    id: number;
+    exercise_name: string;
+    date: string;
+    data: ExerciseRecord;
+}
+
+interface PlanRow {
+    id: number;
+    name: string;
+    data: Plan;
+}
+
+interface ProgramRow {
+    id: number;
+    name: string;
+    data: Program;
+}
+
+const toRecord = (row: RecordRow): ExerciseRecord => ({
+    ...row.data,
+    id: row.id,
+    exerciseName: row.exercise_name,
+    date: row.date,
+    sets: row.data.sets || legacySets(row.data),
+})
+
+const toPlan = (row: PlanRow): Plan => ({
+    ...row.data,
+    id: row.id,
+    name: row.name,
+})
+
+const toProgram = (row: ProgramRow): Program => ({
+    ...row.data,
+    id: row.id,
+    name: row.name,
+})
+
+// Strip keys that live in their own columns before storing the jsonb copy
+function recordData(record: ExerciseRecord): Omit<ExerciseRecord, 'id' | 'exerciseName' | 'date'> {
+    const data: Partial<ExerciseRecord> = { ...record };
+    delete data.id;
+    delete data.exerciseName;
+    delete data.date;
+    return data as Omit<ExerciseRecord, 'id' | 'exerciseName' | 'date'>;
+}
+
+function planData(plan: Plan): Omit<Plan, 'id' | 'name'> {
+    const data: Partial<Plan> = { ...plan };
+    delete data.id;
+    delete data.name;
+    return data as Omit<Plan, 'id' | 'name'>;
+}
+
+function programData(program: Program): Omit<Program, 'id' | 'name'> {
+    const data: Partial<Program> = { ...program };
+    delete data.id;
+    delete data.name;
+    return data as Omit<Program, 'id' | 'name'>;
+}
+
+function createPostgresHandler() {
+    const pool = getPool();
+
+    const query = async <T extends object>(text: string, values: unknown[] = []): Promise<T[]> => {
+        await ensureSchema(pool);
+        const result = await pool.query(text, values);
+        return result.rows as T[];
+    };
+
+    // Run several statements atomically on one client
+    const transaction = async (work: (run: (text: string, values?: unknown[]) => Promise<unknown>) => Promise<void>) => {
+        await ensureSchema(pool);
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+            await work((text, values = []) => client.query(text, values));
+            await client.query('COMMIT');
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        } finally {
+            client.release();
+        }
+    };
+
+    return {
+        // Exercise Functions
+        // -----------------
+
+        async initializeDB(): Promise<boolean> {
+            await ensureSchema(pool);
+            return true;
+        },
+
+        async addExercise(exercise: Exercise): Promise<boolean> {
+            await query(
+                `INSERT INTO exercises (name, data) VALUES ($1, $2)
+                 ON CONFLICT (name) DO UPDATE SET data = EXCLUDED.data`,
+                [exercise.name, exercise]
+            );
+            return true;
+        },
+
+        async getExercise(exerciseName: string): Promise<Exercise | undefined> {
+            const rows = await query<{ data: Exercise }>('SELECT data FROM exercises WHERE name = $1', [exerciseName]);
+            return rows[0]?.data;
+        },
+
+        async getAllExercises(): Promise<Exercise[]> {
+            const rows = await query<{ data: Exercise }>('SELECT data FROM exercises ORDER BY name');
+            return rows.map(row => row.data);
+        },
+
+        async updateExercise(oldName: string, updatedExercise: Exercise): Promise<boolean> {
+            const newName = updatedExercise.name;
+            await transaction(async run => {
+                await run('DELETE FROM exercises WHERE name = $1', [oldName]);
+                await run('INSERT INTO exercises (name, data) VALUES ($1, $2)', [newName, updatedExercise]);
+                if (oldName === newName) return;
+
+                // Cascade the rename to records and plan exercises
+                await run('UPDATE records SET exercise_name = $2 WHERE exercise_name = $1', [oldName, newName]);
+                await run(
+                    `UPDATE plans SET data = jsonb_set(data, '{exercises}', (
+                        SELECT jsonb_agg(CASE WHEN e->>'name' = $1 THEN jsonb_set(e, '{name}', to_jsonb($2::text)) ELSE e END)
+                        FROM jsonb_array_elements(data->'exercises') e
+                     ))
+                     WHERE data->'exercises' @> jsonb_build_array(jsonb_build_object('name', $1::text))`,
+                    [oldName, newName]
+                );
+            });
+            return true;
+        },
+
+        async deleteExercise(exerciseName: string): Promise<boolean> {
+            await transaction(async run => {
+                await run('DELETE FROM records WHERE exercise_name = $1', [exerciseName]);
+                await run('DELETE FROM exercises WHERE name = $1', [exerciseName]);
+            });
+            return true;
+        },
+
+        async clearAllExercises(): Promise<boolean> {
+            await query('TRUNCATE records, exercises');
+            return true;
+        },
+
+        async populateSampleExercises(): Promise<boolean> {
+            await transaction(async run => {
+                for (const exercise of SAMPLE_EXERCISES) {
+                    await run(
+                        `INSERT INTO exercises (name, data) VALUES ($1, $2)
+                         ON CONFLICT (name) DO UPDATE SET data = EXCLUDED.data`,
+                        [exercise.name, exercise]
+                    );
+                }
+            });
+            return true;
+        },
+
+        // Record Functions
+        // ---------------
+
+        async addRecord(record: NewExerciseRecord): Promise<number> {
+            const count = typeof record.count === 'number' ? record.count : parseInt(record.count as unknown as string, 10);
+            const sets = record.sets?.length ? record.sets : legacySets({ ...record, count });
+            const normalized: ExerciseRecord = {
+                exerciseName: record.exerciseName,
+                date: record.date || format(new Date(), 'yyyy-MM-dd'),
+                time: record.time || new Date().toTimeString().split(' ')[0],
+                sets,
+                ...summarizeSets(sets),
+                note: record.note || '',
+            };
+            const rows = await query<{ id: number }>(
+                'INSERT INTO records (exercise_name, date, data) VALUES ($1, $2, $3) RETURNING id',
+                [normalized.exerciseName, normalized.date, recordData(normalized)]
+            );
+            return rows[0].id;
+        },
+
+        async getRecord(recordId: number): Promise<ExerciseRecord | undefined> {
+            const rows = await query<RecordRow>('SELECT * FROM records WHERE id = $1', [recordId]);
+            return rows[0] ? toRecord(rows[0]) : undefined;
+        },
+
+        async getRecordsByExercise(exerciseName: string): Promise<ExerciseRecord[]> {
+            const rows = await query<RecordRow>('SELECT * FROM records WHERE exercise_name = $1 ORDER BY id', [exerciseName]);
+            return rows.map(toRecord);
+        },
+
+        async getRecordsByDateRange(startDate: string, endDate: string): Promise<ExerciseRecord[]> {
+            const rows = await query<RecordRow>(
+                'SELECT * FROM records WHERE date BETWEEN $1 AND $2 ORDER BY date, id',
+                [startDate, endDate]
+            );
+            return rows.map(toRecord);
+        },
+
+        async putRecord(record: ExerciseRecord): Promise<number> {
+            const sets = getRecordSets(record);
+            const normalized = { ...record, sets, ...summarizeSets(sets) };
+            if (!record.id) {
+                const rows = await query<{ id: number }>(
+                    'INSERT INTO records (exercise_name, date, data) VALUES ($1, $2, $3) RETURNING id',
+                    [normalized.exerciseName, normalized.date, recordData(normalized)]
+                );
+                return rows[0].id;
+            }
+
+            await transaction(async run => {
+                await run(
+                    `INSERT INTO records (id, exercise_name, date, data) VALUES ($1, $2, $3, $4)
+                     ON CONFLICT (id) DO UPDATE SET exercise_name = EXCLUDED.exercise_name, date = EXCLUDED.date, data = EXCLUDED.data`,
+                    [record.id, normalized.exerciseName, normalized.date, recordData(normalized)]
+                );
+                // Keep the id sequence ahead of explicitly inserted ids
+                await run(`SELECT setval(pg_get_serial_sequence('records', 'id'), (SELECT MAX(id) FROM records))`);
+            });
+            return record.id;
+        },
+
+        async getAllRecords(): Promise<ExerciseRecord[]> {
+            const rows = await query<RecordRow>('SELECT * FROM records ORDER BY id');
+            return rows.map(toRecord);
+        },
+
+        async updateRecord(id: number | undefined, record: Partial<ExerciseRecord>): Promise<boolean> {
+            if (!id) {
+                throw new Error('Record ID is required');
+            }
+            // A record moves to another day through the date column written below
+            if (record.date !== undefined && !isValidRecordDate(record.date)) {
+                throw new Error(`Invalid record date: ${record.date}`);
+            }
+            if (record.time !== undefined && !isValidRecordTime(record.time)) {
+                throw new Error(`Invalid record time: ${record.time}`);
+            }
+            const rows = await query<RecordRow>('SELECT * FROM records WHERE id = $1', [id]);
+            if (rows.length === 0) {
+                throw new Error('Record not found');
+            }
+            const updatedRecord = { ...toRecord(rows[0]), ...record };
+            if (record.sets?.length) {
+                Object.assign(updatedRecord, summarizeSets(record.sets));
+            }
+            await query(
+                'UPDATE records SET exercise_name = $2, date = $3, data = $4 WHERE id = $1',
+                [id, updatedRecord.exerciseName, updatedRecord.date, recordData(updatedRecord)]
+            );
+            return true;
+        },
+
+        async deleteRecord(recordId: number | undefined): Promise<boolean> {
+            if (!recordId) {
+                throw new Error('Record ID is required');
+            }
+            await query('DELETE FROM records WHERE id = $1', [recordId]);
+            return true;
+        },
+
+        async clearAllRecords(): Promise<boolean> {
+            await query('TRUNCATE records');
+            return true;
+        },
+
+        // Plan Functions
+        // -------------
+
+        async getAllPlans(): Promise<Plan[]> {
+            const rows = await query<PlanRow>('SELECT * FROM plans ORDER BY id');
+            return rows.map(toPlan);
+        },
+
+        async addPlan(plan: Omit<Plan, 'id'>): Promise<number> {
+            const rows = await query<{ id: number }>(
+                'INSERT INTO plans (name, data) VALUES ($1, $2) RETURNING id',
+                [plan.name, planData({ ...plan, createdAt: new Date().toISOString() })]
+            );
+            return rows[0].id;
+        },
+
+        async updatePlan(id: number, plan: Plan): Promise<boolean> {
+            const rows = await query<PlanRow>('SELECT * FROM plans WHERE id = $1', [id]);
+            if (rows.length === 0) {
+                throw new Error('Plan not found');
+            }
+            const updatedPlan = { ...toPlan(rows[0]), ...plan };
+            await query(
+                'UPDATE plans SET name = $2, data = $3 WHERE id = $1',
+                [id, updatedPlan.name, planData(updatedPlan)]
+            );
+            return true;
+        },
+
+        async deletePlan(id: number): Promise<void> {
+            await query('DELETE FROM plans WHERE id = $1', [id]);
+        },
+
+        // Programs are built from plans, so they go too
+        async clearAllPlans(): Promise<boolean> {
+            await query('TRUNCATE plans, programs');
+            return true;
+        },
+
+        // Program Functions
+        // ----------------
+
+        async getAllPrograms(): Promise<Program[]> {
+            const rows = await query<ProgramRow>('SELECT * FROM programs ORDER BY id');
+            return rows.map(toProgram);
+        },
+
+        async addProgram(program: Omit<Program, 'id'>): Promise<number> {
+            const rows = await query<{ id: number }>(
+                'INSERT INTO programs (name, data) VALUES ($1, $2) RETURNING id',
+                [program.name, programData({ ...program, createdAt: new Date().toISOString() })]
+            );
+            return rows[0].id;
+        },
+
+        async updateProgram(id: number, program: Program): Promise<boolean> {
+            const rows = await query<ProgramRow>('SELECT * FROM programs WHERE id = $1', [id]);
+            if (rows.length === 0) {
+                throw new Error('Program not found');
+            }
+            const updatedProgram = { ...toProgram(rows[0]), ...program };
+            await query(
+                'UPDATE programs SET name = $2, data = $3 WHERE id = $1',
+                [id, updatedProgram.name, programData(updatedProgram)]
+            );
+            return true;
+        },
+
+        async deleteProgram(id: number): Promise<void> {
+            await query('DELETE FROM programs WHERE id = $1', [id]);
+        },
+
+        // Backup Functions
+        // ---------------
+
+        // Swap everything for the given contents in one transaction. Rows keep
+        // the ids they come with, and each sequence moves past the highest one.
+        async replaceAllData(contents: StoreContents): Promise<boolean> {
+            await transaction(async run => {
+                await run('TRUNCATE records, exercises, plans, programs RESTART IDENTITY');
+                for (const exercise of contents.exercises) {
+                    await run(
+                        `INSERT INTO exercises (name, data) VALUES ($1, $2)
+                         ON CONFLICT (name) DO UPDATE SET data = EXCLUDED.data`,
+                        [exercise.name, exercise]
+                    );
+                }
+                for (const record of contents.records) {
+                    const sets = getRecordSets(record);
+                    const normalized = { ...record, sets, ...summarizeSets(sets) };
+                    await run(
+                        `INSERT INTO records (id, exercise_name, date, data) VALUES (COALESCE($1, nextval(pg_get_serial_sequence('records', 'id'))), $2, $3, $4)`,
+                        [record.id ?? null, normalized.exerciseName, normalized.date, recordData(normalized)]
+                    );
+                }
+                for (const plan of contents.plans) {
+                    await run(
+                        `INSERT INTO plans (id, name, data) VALUES (COALESCE($1, nextval(pg_get_serial_sequence('plans', 'id'))), $2, $3)`,
+                        [plan.id ?? null, plan.name, planData(plan)]
+                    );
+                }
+                for (const program of contents.programs) {
+                    await run(
+                        `INSERT INTO programs (id, name, data) VALUES (COALESCE($1, nextval(pg_get_serial_sequence('programs', 'id'))), $2, $3)`,
+                        [program.id ?? null, program.name, programData(program)]
+                    );
+                }
+                for (const table of ['records', 'plans', 'programs']) {
+                    await run(`SELECT setval(pg_get_serial_sequence('${table}', 'id'), (SELECT MAX(id) FROM ${table}))`);
+                }
+            });
+            return true;
+        },
+    };
+}
+
+type PostgresHandler = ReturnType<typeof createPostgresHandler>
+type PostgresMethod = keyof PostgresHandler
+
+export { createPostgresHandler };
+
+export type { PostgresHandler, PostgresMethod };
@@ -0,0 +1,53 @@
+import { PersonalRecord } from './pr_utils';
+
+// Announces PRs as records are saved. addRecord and updateRecord call
+// notifyPersonalRecords; the dashboard listens and shows a banner.
+
+type PRListener = (exerciseName: string, prs: PersonalRecord[]) => void;
+
+interface PRSource {
+  getPersonalRecords(exerciseName: string): Promise<PersonalRecord[]>;
+}
+
+const listeners = new Set<PRListener>();
+let muted = 0;
+
+// Returns a function that removes the listener
+export function onPersonalRecords(listener: PRListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Run a bulk operation, such as an import, without checking each saved record
+export async function withPersonalRecordsMuted<T>(operation: () => Promise<T>): Promise<T> {
+  muted++;
+  try {
+    return await operation();
+  } finally {
+    muted--;
+  }
+}
+
+// Tell listeners about the PRs a just-saved record set. Skipped when nobody is
+// listening; the exercise name may be passed as a lookup so callers only pay
+// for it when needed. Never throws, so a failed check can't fail the save.
+export async function notifyPersonalRecords(
+  source: PRSource,
+  exercise: string | (() => Promise<string | undefined>),
+  recordId: number,
+): Promise<void> {
+  if (listeners.size === 0 || muted > 0) return;
+
+  try {
+    const exerciseName = typeof exercise === 'string' ? exercise : await exercise();
+    if (!exerciseName) return;
+    const prs = (await source.getPersonalRecords(exerciseName)).filter(pr => pr.recordId === recordId);
+    if (prs.length > 0) {
+      listeners.forEach(listener => listener(exerciseName, prs));
+    }
+  } catch (error) {
+    console.error('Error checking personal records:', error);
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { ExerciseRecord, RecordSet } from './indexdb_handler';
+import { computePersonalRecords, formatPRLabel, formatPRValue } from './pr_utils';
+
+const record = (id: number, date: string, sets: RecordSet[], unit: 'kg' | 'lbs' = 'kg'): ExerciseRecord =>
+  ({ id, exerciseName: 'Squat', date, time: '18:00:00', count: 0, rpe: null, note: '', sets, unit });
+
+const set = (count: number, weight?: number, unit: 'kg' | 'lbs' = 'kg', warmup = false): RecordSet =>
+  ({ count, weight, unit, rpe: null, warmup });
+
+const kinds = (history: ReturnType<typeof computePersonalRecords>, recordId: number) =>
+  history.filter(pr => pr.recordId === recordId).map(pr => pr.kind).sort();
+
+describe('computePersonalRecords', () => {
+  const records = [
+    record(1, '2024-03-01', [set(5, 100), set(5, 100)]),
+    record(2, '2024-03-04', [set(8, 100)]),
+    record(3, '2024-03-08', [set(3, 120)]),
+  ];
+
+  it('uses the first workout as the baseline', () => {
+    expect(computePersonalRecords(records.slice(0, 1), 'strength')).toEqual([]);
+  });
+
+  it('replays the records in date order', () => {
+    const history = computePersonalRecords([...records].reverse(), 'strength');
+    expect(kinds(history, 2)).toEqual(['e1rm', 'repsAtWeight']);
+    expect(kinds(history, 3)).toEqual(['e1rm', 'weight']);
+    expect(history.find(pr => pr.kind === 'repsAtWeight')).toMatchObject({ value: 8, previous: 5, weight: 100 });
+    expect(history.find(pr => pr.kind === 'weight')).toMatchObject({ value: 120, previous: 100 });
+  });
+
+  it('ignores warm-up sets', () => {
+    const history = computePersonalRecords([records[0], record(2, '2024-03-04', [set(1, 140, 'kg', true), set(5, 90)])], 'strength');
+    expect(history).toEqual([]);
+  });
+
+  it('compares kg and lbs sets in one unit', () => {
+    const history = computePersonalRecords([records[0], record(2, '2024-03-04', [set(5, 225, 'lbs')], 'lbs')], 'strength');
+    const weight = history.find(pr => pr.kind === 'weight');
+    expect(weight?.value).toBeCloseTo(102.06, 2);
+    expect(weight?.unit).toBe('lbs');
+    expect(formatPRValue(weight!)).toBe('225lbs');
+    // 225lbs is not a round kg weight, so it is a new load rather than more reps at 100kg
+    expect(kinds(history, 2)).not.toContain('repsAtWeight');
+  });
+
+  it('follows edits and deletes of the records', () => {
+    const edited = records.map(r => r.id === 3 ? { ...r, sets: [set(3, 95)] } : r);
+    expect(kinds(computePersonalRecords(edited, 'strength'), 3)).toEqual([]);
+
+    const withoutFirst = records.filter(r => r.id !== 1);
+    const history = computePersonalRecords(withoutFirst, 'strength');
+    expect(kinds(history, 2)).toEqual([]);
+    expect(kinds(history, 3)).toEqual(['e1rm', 'weight']);
+  });
+
+  it('tracks the longest set for timed exercises', () => {
+    const history = computePersonalRecords([record(1, '2024-03-01', [set(60)]), record(2, '2024-03-02', [set(90)])], 'core');
+    expect(history).toEqual([expect.objectContaining({ kind: 'duration', value: 90, previous: 60 })]);
+    expect(formatPRValue(history[0])).toBe('90s');
+  });
+
+  it('labels most reps with the weight, or bodyweight', () => {
+    const history = computePersonalRecords([record(1, '2024-03-01', [set(8)]), record(2, '2024-03-02', [set(10)])], 'strength');
+    expect(history).toHaveLength(1);
+    expect(formatPRLabel(history[0])).toBe('Most Reps at bodyweight');
+  });
+});
@@ -0,0 +1,129 @@
+import { Exercise, ExerciseRecord, RecordSet } from './indexdb_handler';
+import { getRecordSets, workingSets, convertWeight, formatWeight } from './record_utils';
+import { estimateOneRepMax } from './e1rm_utils';
+
+// Personal records are derived from the saved records rather than stored, so
+// editing or deleting a record can never leave a stale PR behind.
+
+export type PRKind = 'weight' | 'repsAtWeight' | 'e1rm' | 'duration' | 'volume';
+
+export const PR_LABELS: Record<PRKind, string> = {
+  weight: 'Heaviest Weight',
+  repsAtWeight: 'Most Reps',
+  e1rm: 'Best Est. 1RM',
+  duration: 'Longest Duration',
+  volume: 'Best Session Volume',
+};
+
+export interface PersonalRecord {
+  kind: PRKind;
+  recordId: number;
+  date: string;
+  time: string;
+  value: number; // kg for weight, e1rm and volume; reps; or seconds
+  previous: number;
+  weight?: number; // repsAtWeight only: the weight in kg, 0 for bodyweight
+  unit: 'kg' | 'lbs'; // Unit of the record, for display
+}
+
+const EPSILON = 0.001;
+
+const weightInKg = (set: RecordSet) => convertWeight(set.weight || 0, set.unit || 'lbs', 'kg');
+
+// Best value per kind in one record, plus the best reps at each weight
+function recordBests(record: ExerciseRecord, type: Exercise['type']) {
+  const sets = workingSets(getRecordSets(record));
+  const bests: Partial<Record<PRKind, number>> = {};
+  const repsAtWeight = new Map<number, number>();
+
+  if (type !== 'strength') {
+    const longest = Math.max(0, ...sets.map(set => set.count));
+    if (longest > 0) bests.duration = longest;
+    return { bests, repsAtWeight };
+  }
+
+  let volume = 0;
+  for (const set of sets) {
+    const kg = weightInKg(set);
+    // Keyed by kg rounded to 0.01 to drop conversion noise. A load logged in lbs
+    // rarely converts to a round kg weight, so e.g. 20kg and 44lbs keep separate keys.
+    const key = Math.round(kg * 100) / 100;
+    repsAtWeight.set(key, Math.max(repsAtWeight.get(key) || 0, set.count));
+    if (kg <= 0) continue;
+
+    bests.weight = Math.max(bests.weight || 0, kg);
+    // Always Epley, so the PR history doesn't change with the display setting
+    const e1rm = estimateOneRepMax(kg, set.count, 'epley');
+    if (e1rm) bests.e1rm = Math.max(bests.e1rm || 0, e1rm);
+    volume += kg * set.count;
+  }
+  if (volume > 0) bests.volume = volume;
+
+  return { bests, repsAtWeight };
+}
+
+const byDateTime = (a: ExerciseRecord, b: ExerciseRecord) =>
+  `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`) || (a.id || 0) - (b.id || 0);
+
+// Replay the records of one exercise in order and return every PR set along
+// the way, oldest first. The first workout only sets the baseline, and "most
+// reps" only counts at a weight that has been lifted before.
+export function computePersonalRecords(records: ExerciseRecord[], type: Exercise['type']): PersonalRecord[] {
+  const history: PersonalRecord[] = [];
+  const bests: Partial<Record<PRKind, number>> = {};
+  const repsAtWeight = new Map<number, number>();
+
+  [...records].sort(byDateTime).forEach(record => {
+    const current = recordBests(record, type);
+    const base = { recordId: record.id as number, date: record.date, time: record.time, unit: record.unit || 'lbs' };
+
+    for (const kind of Object.keys(current.bests) as PRKind[]) {
+      const value = current.bests[kind] as number;
+      const previous = bests[kind];
+      if (previous !== undefined && value > previous + EPSILON) {
+        history.push({ ...base, kind, value, previous });
+      }
+      if (previous === undefined || value > previous) bests[kind] = value;
+    }
+
+    current.repsAtWeight.forEach((reps, weight) => {
+      const previous = repsAtWeight.get(weight);
+      if (previous !== undefined && reps > previous) {
+        history.push({ ...base, kind: 'repsAtWeight', value: reps, previous, weight });
+      }
+      if (previous === undefined || reps > previous) repsAtWeight.set(weight, reps);
+    });
+  });
+
+  return history;
+}
+
+// Weights are shown in `unit` when given, otherwise in the unit of the record
+export function formatPRValue(pr: PersonalRecord, unit: 'kg' | 'lbs' = pr.unit): string {
+  switch (pr.kind) {
+    case 'weight':
+    case 'e1rm':
+    case 'volume':
+      return formatWeight(pr.value, 'kg', unit);
+    case 'repsAtWeight':
+      return `${pr.value} reps`;
+    case 'duration':
+      return `${pr.value}s`;
+  }
+}
+
+export function formatPRLabel(pr: PersonalRecord, unit: 'kg' | 'lbs' = pr.unit): string {
+  if (pr.kind === 'repsAtWeight') {
+    return `${PR_LABELS.repsAtWeight} at ${pr.weight ? formatWeight(pr.weight, 'kg', unit) : 'bodyweight'}`;
+  }
+  return PR_LABELS[pr.kind];
+}
+
+// PRs keyed by the record that set them
+export function groupByRecord(history: PersonalRecord[]): Map<number, PersonalRecord[]> {
+  const grouped = new Map<number, PersonalRecord[]>();
+  for (const pr of history) {
+    grouped.set(pr.recordId, [...(grouped.get(pr.recordId) || []), pr]);
+  }
+  return grouped;
+}
@@ -0,0 +1,113 @@
+import { addDays, addWeeks, differenceInCalendarDays, format, parseISO, startOfWeek, eachDayOfInterval, endOfWeek } from 'date-fns';
+import { Plan, Program, ProgramWeek } from './indexdb_handler';
+import { isPlanScheduled } from './schedule_utils';
+
+// Program weeks are calendar weeks, Monday to Sunday like Plan.schedule. Week 1
+// is the week holding startDate; days before startDate don't count.
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+export const newProgramWeek = (planIds: number[] = []): ProgramWeek => ({ planIds, volume: 100, intensity: 100 });
+
+export interface ProgramDay {
+  status: 'upcoming' | 'active' | 'finished';
+  weekNumber: number; // 1-based index into program.weeks
+  cycle: number; // 1-based; only goes past 1 for repeating programs
+  week?: ProgramWeek; // Unset unless active
+  day: number | null; // Training day of the week, counting from 1; null on rest days
+  plans: Plan[]; // Plans prescribed for the date
+}
+
+// Weeks between the week holding startDate and the week holding `date`
+function weeksSinceStart(program: Program, date: Date): number {
+  const start = startOfWeek(parseISO(program.startDate), WEEK_OPTIONS);
+  return Math.floor(differenceInCalendarDays(startOfWeek(date, WEEK_OPTIONS), start) / 7);
+}
+
+// Plans of a program week that fall on `date`
+export function weekPlansOn(program: Program, week: ProgramWeek, plans: Plan[], date: Date): Plan[] {
+  if (format(date, 'yyyy-MM-dd') < program.startDate) return [];
+  return week.planIds
+    .map(id => plans.find(plan => plan.id === id))
+    .filter((plan): plan is Plan => plan !== undefined && isPlanScheduled(plan, date));
+}
+
+export function programDay(program: Program, plans: Plan[], date = new Date()): ProgramDay {
+  const elapsed = weeksSinceStart(program, date);
+  const total = program.weeks.length;
+
+  if (format(date, 'yyyy-MM-dd') < program.startDate || total === 0) {
+    return { status: 'upcoming', weekNumber: 1, cycle: 1, day: null, plans: [] };
+  }
+  if (elapsed >= total && !program.repeat) {
+    return { status: 'finished', weekNumber: total, cycle: 1, day: null, plans: [] };
+  }
+
+  const weekIndex = elapsed % total;
+  const week = program.weeks[weekIndex];
+  const todaysPlans = weekPlansOn(program, week, plans, date);
+
+  // Count the training days of this week up to the date
+  const trainingDays = eachDayOfInterval({ start: startOfWeek(date, WEEK_OPTIONS), end: date })
+    .filter(day => weekPlansOn(program, week, plans, day).length > 0);
+
+  return {
+    status: 'active',
+    weekNumber: weekIndex + 1,
+    cycle: Math.floor(elapsed / total) + 1,
+    week,
+    day: todaysPlans.length > 0 ? trainingDays.length : null,
+    plans: todaysPlans,
+  };
+}
+
+// e.g. "Week 3 of 8 — Day 2"
+export function formatProgramDay(program: Program, day: ProgramDay): string {
+  switch (day.status) {
+    case 'upcoming':
+      return `Starts ${format(parseISO(program.startDate), 'EEE, MMM d')}`;
+    case 'finished':
+      return 'Finished';
+    case 'active': {
+      const cycle = day.cycle > 1 ? ` (round ${day.cycle})` : '';
+      const position = `Week ${day.weekNumber} of ${program.weeks.length}${cycle}`;
+      return day.day === null ? `${position} — Rest day` : `${position} — Day ${day.day}`;
+    }
+  }
+}
+
+// Next day with work prescribed, looking a week ahead
+export function nextProgramSession(program: Program, plans: Plan[], from = new Date()): { date: Date, plans: Plan[] } | null {
+  for (let offset = 1; offset <= 7; offset++) {
+    const date = addDays(from, offset);
+    const day = programDay(program, plans, date);
+    if (day.plans.length > 0) return { date, plans: day.plans };
+  }
+  return null;
+}
+
+// Start date that makes `weekNumber` the current week; the program then
+// advances on its own from there
+export function startDateForWeek(weekNumber: number, today = new Date()): string {
+  return format(addWeeks(startOfWeek(today, WEEK_OPTIONS), -(weekNumber - 1)), 'yyyy-MM-dd');
+}
+
+// Plan ids used by the programs running on `date`; those plans follow the
+// program rather than their own schedule
+export function activeProgramPlanIds(programs: Program[], plans: Plan[], date = new Date()): Set<number> {
+  const ids = new Set<number>();
+  for (const program of programs) {
+    if (programDay(program, plans, date).status === 'active') {
+      program.weeks.forEach(week => week.planIds.forEach(id => ids.add(id)));
+    }
+  }
+  return ids;
+}
+
+// Training days across the weeks of a program, for showing its length
+export function countProgramSessions(program: Program, plans: Plan[]): number {
+  const start = startOfWeek(parseISO(program.startDate), WEEK_OPTIONS);
+  return program.weeks.reduce((sum, week, index) => {
+    const days = eachDayOfInterval({ start: addWeeks(start, index), end: endOfWeek(addWeeks(start, index), WEEK_OPTIONS) });
+    return sum + days.filter(date => weekPlansOn(program, week, plans, date).length > 0).length;
+  }, 0);
+}
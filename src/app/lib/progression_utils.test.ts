@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { ExerciseRecord } from './indexdb_handler';
+import {
+  ProgressionRule, defaultProgressionRule, progressionRuleError, scaleSuggestion, suggestProgression,
+} from './progression_utils';
+
+// One session of working sets at the same weight
+const session = (date: string, weight: number, reps: number[], unit: 'kg' | 'lbs' = 'kg', rpe: number | null = null): ExerciseRecord => ({
+  exerciseName: 'Squat', date, time: '18:00:00', count: 0, rpe: null, note: '',
+  sets: reps.map(count => ({ count, weight, unit, rpe, warmup: false })),
+});
+
+describe('suggestProgression', () => {
+  const linear = defaultProgressionRule('linear', 'kg');
+
+  it('needs a weighted session to start from', () => {
+    expect(suggestProgression(linear, [])).toBeNull();
+    expect(suggestProgression(linear, [{ ...session('2024-03-01', 0, [20]), sets: [{ count: 20, rpe: null, warmup: false }] }])).toBeNull();
+  });
+
+  it('adds the increment after a successful linear session', () => {
+    const suggestion = suggestProgression(linear, [session('2024-03-01', 97.5, [5, 5, 5]), session('2024-03-04', 100, [5, 5, 5])]);
+    expect(suggestion).toMatchObject({ weight: 102.5, unit: 'kg', reps: 5, deload: false });
+    expect(suggestion?.reason).toBe('Hit 3 × 5 at 100kg: add 2.5kg');
+  });
+
+  it('repeats the weight after a miss', () => {
+    expect(suggestProgression(linear, [session('2024-03-04', 100, [5, 5, 4])])).toMatchObject({ weight: 100, reps: 5 });
+  });
+
+  it('deloads after enough misses in a row', () => {
+    const records = ['2024-03-01', '2024-03-04', '2024-03-08'].map(date => session(date, 100, [5, 4]));
+    expect(suggestProgression(linear, records)).toMatchObject({ weight: 90, reps: 5, deload: true });
+    expect(suggestProgression({ ...linear, deloadAfter: 0 }, records)).toMatchObject({ weight: 100, deload: false });
+  });
+
+  it('converts sessions logged in the other unit', () => {
+    // 225lbs is about 102kg, which rounds to 102.5kg before adding the increment
+    expect(suggestProgression(linear, [session('2024-03-04', 225, [5, 5, 5], 'lbs')])).toMatchObject({ weight: 105, unit: 'kg' });
+  });
+
+  it('adds reps, then weight, for double progression', () => {
+    const double = defaultProgressionRule('double', 'kg');
+    expect(suggestProgression(double, [session('2024-03-04', 60, [10, 10, 9])])).toMatchObject({ weight: 60, reps: 10 });
+    expect(suggestProgression(double, [session('2024-03-04', 60, [12, 12, 12])])).toMatchObject({ weight: 62.5, reps: 8 });
+  });
+
+  it('steers toward the target RPE', () => {
+    const rpe = defaultProgressionRule('rpe', 'lbs');
+    expect(suggestProgression(rpe, [session('2024-03-04', 200, [5, 5], 'lbs', 7)])).toMatchObject({ weight: 205 });
+    expect(suggestProgression(rpe, [session('2024-03-04', 200, [5, 5], 'lbs', 8)])).toMatchObject({ weight: 200 });
+    expect(suggestProgression(rpe, [session('2024-03-04', 200, [5, 5], 'lbs', 9)])).toMatchObject({ weight: 195 });
+    expect(suggestProgression(rpe, [session('2024-03-04', 200, [5, 5], 'lbs')])).toMatchObject({ weight: 205 });
+  });
+});
+
+describe('progression rules', () => {
+  it('starts each kind from a valid rule', () => {
+    for (const kind of ['linear', 'double', 'rpe'] as const) {
+      expect(progressionRuleError(defaultProgressionRule(kind, 'lbs'))).toBeNull();
+    }
+  });
+
+  it('rejects rules that cannot be followed', () => {
+    const rule = (changes: Partial<ProgressionRule>) => ({ ...defaultProgressionRule('double', 'kg'), ...changes });
+    expect(progressionRuleError(rule({ increment: 0 }))).toBe('Progression increments must be positive');
+    expect(progressionRuleError(rule({ maxReps: 6 }))).toBe('The top of a rep range must be at least its bottom');
+    expect(progressionRuleError(rule({ deloadPercent: 100 }))).toBe('Deloads must take off between 1 and 99%');
+    expect(progressionRuleError({ ...defaultProgressionRule('rpe', 'kg'), targetRpe: 11 })).toBe('Target RPE must be between 1 and 10');
+  });
+
+  it('scales a suggestion to a loadable weight', () => {
+    const suggestion = { weight: 100, unit: 'kg' as const, reps: 5, reason: 'Hit it', deload: false };
+    expect(scaleSuggestion(suggestion, 100, 2.5)).toBe(suggestion);
+    expect(scaleSuggestion(suggestion, 85, 2.5)).toMatchObject({ weight: 85, reason: 'Hit it (85% this week)' });
+    expect(scaleSuggestion(suggestion, 93, 2.5).weight).toBe(92.5);
+  });
+});
@@ -0,0 +1,199 @@
+import { ExerciseRecord, Plan } from './indexdb_handler';
+import { ExerciseStorage } from './db_store';
+import { getRecordSets, workingSets, convertWeight } from './record_utils';
+import { plansScheduledOn } from './schedule_utils';
+import { roundToIncrement } from './e1rm_utils';
+
+// Progressive overload: each plan exercise can carry a rule that turns the
+// last sessions of that exercise into the weight and reps to aim for next.
+
+export type ProgressionKind = 'linear' | 'double' | 'rpe';
+
+export const PROGRESSION_KINDS: { kind: ProgressionKind, label: string }[] = [
+  { kind: 'linear', label: 'Linear' },
+  { kind: 'double', label: 'Double progression' },
+  { kind: 'rpe', label: 'RPE-based' },
+];
+
+export interface ProgressionRule {
+  kind: ProgressionKind;
+  increment: number; // Weight added after a successful session, in `unit`
+  unit: 'kg' | 'lbs';
+  reps: number; // Target reps per set; the bottom of the range for double progression
+  maxReps?: number; // Top of the rep range, double progression only
+  targetRpe?: number; // RPE-based only
+  deloadAfter: number; // Missed sessions in a row before a deload; 0 never deloads
+  deloadPercent: number; // Weight taken off for a deload
+}
+
+export interface ProgressionSuggestion {
+  weight: number;
+  unit: 'kg' | 'lbs';
+  reps: number;
+  reason: string;
+  deload: boolean;
+}
+
+export function defaultProgressionRule(kind: ProgressionKind, unit: 'kg' | 'lbs'): ProgressionRule {
+  const base = { kind, unit, increment: unit === 'kg' ? 2.5 : 5, deloadAfter: 3, deloadPercent: 10 };
+  switch (kind) {
+    case 'linear':
+      return { ...base, reps: 5 };
+    case 'double':
+      return { ...base, reps: 8, maxReps: 12 };
+    case 'rpe':
+      return { ...base, reps: 5, targetRpe: 8 };
+  }
+}
+
+// Why a rule can't be saved, or null when it can
+export function progressionRuleError(rule: ProgressionRule): string | null {
+  const positive = (value: number | undefined) => value !== undefined && !isNaN(value) && value > 0;
+  if (!positive(rule.increment)) return 'Progression increments must be positive';
+  if (!positive(rule.reps)) return 'Progression reps must be positive';
+  if (rule.kind === 'double' && !(positive(rule.maxReps) && (rule.maxReps as number) >= rule.reps)) {
+    return 'The top of a rep range must be at least its bottom';
+  }
+  if (rule.kind === 'rpe' && !(positive(rule.targetRpe) && (rule.targetRpe as number) <= 10)) {
+    return 'Target RPE must be between 1 and 10';
+  }
+  if (isNaN(rule.deloadAfter) || rule.deloadAfter < 0) return "Deload misses can't be negative";
+  if (!(rule.deloadPercent > 0 && rule.deloadPercent < 100)) return 'Deloads must take off between 1 and 99%';
+  return null;
+}
+
+// What the heaviest working sets of one session came to, in the rule's unit
+interface SessionResult {
+  weight: number;
+  reps: number[];
+  rpe: number | null; // Hardest RPE logged at that weight
+}
+
+function sessionResult(record: ExerciseRecord, unit: 'kg' | 'lbs'): SessionResult | null {
+  const sets = workingSets(getRecordSets(record)).filter(set => set.weight);
+  if (sets.length === 0) return null;
+
+  const weights = sets.map(set => convertWeight(set.weight as number, set.unit || 'lbs', unit));
+  const top = Math.max(...weights);
+  const topSets = sets.filter((_, i) => Math.abs(weights[i] - top) < 0.01);
+  const rpes = topSets.map(set => set.rpe).filter((rpe): rpe is number => rpe !== null);
+
+  return { weight: top, reps: topSets.map(set => set.count), rpe: rpes.length > 0 ? Math.max(...rpes) : null };
+}
+
+// A session is missed when any top set falls short of the target reps
+const isMiss = (rule: ProgressionRule, result: SessionResult) => Math.min(...result.reps) < rule.reps;
+
+export function formatProgressionRule(rule: ProgressionRule): string {
+  const step = `+${rule.increment}${rule.unit}`;
+  switch (rule.kind) {
+    case 'linear':
+      return `${rule.reps} reps, ${step}`;
+    case 'double':
+      return `${rule.reps}–${rule.maxReps ?? rule.reps} reps, ${step}`;
+    case 'rpe':
+      return `${rule.reps} reps @ RPE ${rule.targetRpe ?? 8}, ±${rule.increment}${rule.unit}`;
+  }
+}
+
+// Next session's target from the exercise's history, or null before any weighted session
+export function suggestProgression(rule: ProgressionRule, records: ExerciseRecord[]): ProgressionSuggestion | null {
+  const sessions = [...records]
+    .sort((a, b) => `${b.date} ${b.time}`.localeCompare(`${a.date} ${a.time}`))
+    .map(record => sessionResult(record, rule.unit))
+    .filter((result): result is SessionResult => result !== null);
+  if (sessions.length === 0) return null;
+
+  const last = sessions[0];
+  const lastWeight = roundToIncrement(last.weight, rule.increment);
+  const suggest = (weight: number, reps: number, reason: string, deload = false): ProgressionSuggestion => ({
+    weight: roundToIncrement(weight, rule.increment),
+    unit: rule.unit,
+    reps,
+    reason,
+    deload,
+  });
+
+  const missesInARow = sessions.findIndex(session => !isMiss(rule, session));
+  const misses = missesInARow === -1 ? sessions.length : missesInARow;
+  if (rule.deloadAfter > 0 && misses >= rule.deloadAfter) {
+    return suggest(
+      last.weight * (1 - rule.deloadPercent / 100),
+      rule.reps,
+      `Missed ${misses} sessions in a row: deload ${rule.deloadPercent}%`,
+      true,
+    );
+  }
+
+  const summary = `${last.reps.length} × ${Math.min(...last.reps)} at ${lastWeight}${rule.unit}`;
+
+  switch (rule.kind) {
+    case 'linear':
+      return isMiss(rule, last)
+        ? suggest(lastWeight, rule.reps, `Missed ${rule.reps} reps last time: repeat the weight`)
+        : suggest(lastWeight + rule.increment, rule.reps, `Hit ${summary}: add ${rule.increment}${rule.unit}`);
+
+    case 'double': {
+      const maxReps = rule.maxReps ?? rule.reps;
+      if (Math.min(...last.reps) >= maxReps) {
+        return suggest(lastWeight + rule.increment, rule.reps, `Hit ${summary}, the top of the range: add ${rule.increment}${rule.unit}`);
+      }
+      const reps = Math.min(maxReps, Math.max(rule.reps, Math.min(...last.reps) + 1));
+      return suggest(lastWeight, reps, `Did ${summary}: add a rep before adding weight`);
+    }
+
+    case 'rpe': {
+      const target = rule.targetRpe ?? 8;
+      if (isMiss(rule, last)) {
+        return suggest(lastWeight, rule.reps, `Missed ${rule.reps} reps last time: repeat the weight`);
+      }
+      if (last.rpe === null) {
+        return suggest(lastWeight + rule.increment, rule.reps, `Hit ${summary} with no RPE logged: add ${rule.increment}${rule.unit}`);
+      }
+      if (last.rpe <= target - 1) {
+        return suggest(lastWeight + rule.increment, rule.reps, `RPE ${last.rpe} was under ${target}: add ${rule.increment}${rule.unit}`);
+      }
+      if (last.rpe > target + 0.5) {
+        return suggest(Math.max(0, lastWeight - rule.increment), rule.reps, `RPE ${last.rpe} was over ${target}: take off ${rule.increment}${rule.unit}`);
+      }
+      return suggest(lastWeight, rule.reps, `RPE ${last.rpe} was on target: repeat the weight`);
+    }
+  }
+}
+
+// Scale a suggestion by a program week's intensity, e.g. 90 for a lighter week
+export function scaleSuggestion(suggestion: ProgressionSuggestion, percent: number, increment: number): ProgressionSuggestion {
+  if (percent === 100) return suggestion;
+  return {
+    ...suggestion,
+    weight: roundToIncrement(suggestion.weight * percent / 100, increment),
+    reason: `${suggestion.reason} (${percent}% this week)`,
+  };
+}
+
+// The rule an exercise follows outside a plan session, preferring plans scheduled on `date`
+export function progressionRuleFor(plans: Plan[], exerciseName: string, date = new Date()): ProgressionRule | undefined {
+  const ruleIn = (list: Plan[]) => list
+    .flatMap(plan => plan.exercises)
+    .find(exercise => exercise.name === exerciseName && exercise.progression)?.progression;
+  return ruleIn(plansScheduledOn(plans, date)) || ruleIn(plans);
+}
+
+export async function loadSuggestion(
+  db: ExerciseStorage,
+  exerciseName: string,
+  rule: ProgressionRule,
+): Promise<ProgressionSuggestion | null> {
+  return suggestProgression(rule, await db.getRecordsByExercise(exerciseName));
+}
+
+// Suggestions for the exercises of a plan that have a rule, keyed by exercise name
+export async function loadPlanSuggestions(db: ExerciseStorage, plan: Plan): Promise<Map<string, ProgressionSuggestion>> {
+  const suggestions = new Map<string, ProgressionSuggestion>();
+  for (const exercise of plan.exercises) {
+    if (!exercise.progression) continue;
+    const suggestion = await loadSuggestion(db, exercise.name, exercise.progression);
+    if (suggestion) suggestions.set(exercise.name, suggestion);
+  }
+  return suggestions;
+}
@@ -0,0 +1,101 @@
+import { format, isValid, parseISO } from 'date-fns'
+import { ExerciseRecord, RecordSet } from './indexdb_handler'
+
+type SetSummary = Pick<ExerciseRecord, 'count' | 'weight' | 'unit' | 'rpe'>
+
+// Sets for a record saved before records carried a list of sets
+export function legacySets(record: Pick<ExerciseRecord, 'count' | 'weight' | 'unit' | 'rpe'>): RecordSet[] {
+  return [{
+    count: record.count,
+    weight: record.weight ?? undefined,
+    unit: record.unit || 'lbs',
+    rpe: record.rpe ?? null,
+    warmup: false,
+  }];
+}
+
+export function workingSets(sets: RecordSet[]): RecordSet[] {
+  return sets.filter(set => !set.warmup);
+}
+
+// Record-level fields derived from the working sets: total count, top weight and top RPE
+export function summarizeSets(sets: RecordSet[]): SetSummary {
+  const working = workingSets(sets);
+  const topSet = working
+    .filter(set => set.weight)
+    .sort((a, b) => (b.weight as number) - (a.weight as number))[0];
+  const rpes = working.filter(set => set.rpe !== null && set.rpe !== undefined).map(set => set.rpe as number);
+
+  return {
+    count: working.reduce((sum, set) => sum + set.count, 0),
+    weight: topSet?.weight,
+    unit: topSet?.unit || sets[0]?.unit || 'lbs',
+    rpe: rpes.length > 0 ? Math.max(...rpes) : null,
+  };
+}
+
+// Sets of a record, falling back to its single legacy count
+export function getRecordSets(record: ExerciseRecord): RecordSet[] {
+  return record.sets?.length ? record.sets : legacySets(record);
+}
+
+// Compact description, e.g. "3 × 12 @ 135lbs, 8 @ 155lbs (+1 warm-up)".
+// Weights are converted to `unit` when given, otherwise shown as entered.
+export function formatSets(sets: RecordSet[], unit?: 'kg' | 'lbs'): string {
+  const weightOf = (set: RecordSet) => set.weight ? formatWeight(set.weight, set.unit || 'lbs', unit) : '';
+  const groups: { set: RecordSet, times: number }[] = [];
+  for (const set of workingSets(sets)) {
+    const last = groups[groups.length - 1];
+    if (last && last.set.count === set.count && weightOf(last.set) === weightOf(set)) {
+      last.times++;
+    } else {
+      groups.push({ set, times: 1 });
+    }
+  }
+
+  const parts = groups.map(({ set, times }) => {
+    const count = times > 1 ? `${times} × ${set.count}` : `${set.count}`;
+    return set.weight ? `${count} @ ${weightOf(set)}` : count;
+  });
+
+  const warmups = sets.length - workingSets(sets).length;
+  const description = parts.join(', ');
+  return warmups > 0 ? `${description} (+${warmups} warm-up)`.trim() : description;
+}
+
+const LBS_PER_KG = 2.20462;
+
+export function convertWeight(weight: number, from: 'kg' | 'lbs', to: 'kg' | 'lbs'): number {
+  if (from === to) return weight;
+  return from === 'kg' ? weight * LBS_PER_KG : weight / LBS_PER_KG;
+}
+
+// Weight with its unit, e.g. "61.2kg", converted to `to` when given and
+// rounded to one decimal
+export function formatWeight(weight: number, from: 'kg' | 'lbs', to: 'kg' | 'lbs' = from): string {
+  return `${Math.round(convertWeight(weight, from, to) * 10) / 10}${to}`;
+}
+
+// Unit most weighted sets are logged in, so mixed records share one scale
+export function predominantUnit(records: ExerciseRecord[]): 'kg' | 'lbs' {
+  const weighted = records.flatMap(record => getRecordSets(record).filter(set => set.weight));
+  const kg = weighted.filter(set => set.unit === 'kg').length;
+  return kg > weighted.length / 2 ? 'kg' : 'lbs';
+}
+
+// Records keep a local date (yyyy-MM-dd) and time (HH:mm:ss)
+export function isValidRecordDate(date: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) && isValid(parseISO(date));
+}
+
+export function isValidRecordTime(time: string): boolean {
+  return /^([01]\d|2[0-3]):[0-5]\d:[0-5]\d$/.test(time);
+}
+
+// Why a record can't be saved at this date and time, or null when it can
+export function recordDateError(date: string, time: string, now = new Date()): string | null {
+  if (!isValidRecordDate(date)) return 'Enter a valid date';
+  if (!isValidRecordTime(time)) return 'Enter a valid time';
+  if (`${date} ${time}` > format(now, 'yyyy-MM-dd HH:mm:ss')) return "Records can't be dated in the future";
+  return null;
+}
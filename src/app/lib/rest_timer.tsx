@@ -0,0 +1,120 @@
+'use client'
+
+import { Exercise } from './indexdb_handler'
+import { unlockAudio, playBeeps } from './sound_utils'
+
+// Rest timer between sets. The timer is kept as its end time rather than a
+// counter, so it stays accurate while the tab is in the background and picks
+// back up after a reload. The dashboard listens and shows the countdown.
+
+export interface RestTimer {
+  exerciseName: string
+  startedAt: number // ms since epoch
+  endsAt: number
+}
+
+type RestTimerListener = (timer: RestTimer | null) => void
+
+// Choices for the default rest in settings; 0 turns the timer off
+export const REST_OPTIONS = [0, 30, 60, 90, 120, 180, 240, 300]
+
+// localStorage key
+const REST_TIMER_KEY = 'rest_timer'
+
+const listeners = new Set<RestTimerListener>()
+
+// Returns a function that removes the listener
+export function onRestTimer(listener: RestTimerListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// The running timer, or null when there is none or it ran out while the app was closed
+export function loadRestTimer(): RestTimer | null {
+  const saved = localStorage.getItem(REST_TIMER_KEY)
+  if (!saved) return null
+  try {
+    const timer: RestTimer = JSON.parse(saved)
+    if (timer.endsAt > Date.now()) return timer
+  } catch (e) {
+    console.error('Failed to parse saved rest timer:', e)
+  }
+  localStorage.removeItem(REST_TIMER_KEY)
+  return null
+}
+
+function saveRestTimer(timer: RestTimer | null) {
+  if (timer) {
+    localStorage.setItem(REST_TIMER_KEY, JSON.stringify(timer))
+  } else {
+    localStorage.removeItem(REST_TIMER_KEY)
+  }
+  listeners.forEach(listener => listener(timer))
+}
+
+// Rest after a set of `exercise`: its own rest when set, otherwise the default
+export function restSecondsFor(exercise: Pick<Exercise, 'restSeconds'>, defaultSeconds: number): number {
+  return exercise.restSeconds ?? defaultSeconds
+}
+
+// Start (or restart) the timer. Call it from a user action so the alert
+// sound and the notification permission prompt are allowed.
+export function startRestTimer(exerciseName: string, seconds: number) {
+  if (seconds <= 0) return
+  unlockAudio()
+  if ('Notification' in window && Notification.permission === 'default') {
+    Notification.requestPermission().catch(error => console.error('Error requesting notification permission:', error))
+  }
+
+  const now = Date.now()
+  saveRestTimer({ exerciseName, startedAt: now, endsAt: now + seconds * 1000 })
+}
+
+// Add or take away time, e.g. +15 / -15 seconds
+export function adjustRestTimer(seconds: number) {
+  const timer = loadRestTimer()
+  if (!timer) return
+  saveRestTimer({ ...timer, endsAt: Math.max(Date.now(), timer.endsAt + seconds * 1000) })
+}
+
+export function stopRestTimer() {
+  saveRestTimer(null)
+}
+
+export function remainingSeconds(timer: RestTimer, now = Date.now()): number {
+  return Math.max(0, Math.ceil((timer.endsAt - now) / 1000))
+}
+
+// e.g. "1:30"
+export function formatDuration(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`
+}
+
+// Sound, vibration and, when the app is in the background, a notification
+export function alertRestOver(exerciseName: string) {
+  playBeeps(3)
+
+  navigator.vibrate?.([200, 100, 200, 100, 200])
+
+  if ('Notification' in window && Notification.permission === 'granted' && document.hidden) {
+    showNotification('Rest over', { body: `Time for your next set of ${exerciseName}`, tag: 'rest-timer' })
+  }
+}
+
+// Android Chrome only shows notifications through a service worker and throws
+// on `new Notification`. The worker is only registered in production builds,
+// so fall back to the constructor elsewhere.
+async function showNotification(title: string, options: NotificationOptions) {
+  try {
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined
+    if (registration) {
+      await registration.showNotification(title, options)
+    } else {
+      new Notification(title, options)
+    }
+  } catch (error) {
+    console.error('Error showing notification:', error)
+  }
+}
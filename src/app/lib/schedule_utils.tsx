@@ -0,0 +1,122 @@
+import { format, parseISO, differenceInCalendarDays, addDays } from 'date-fns';
+import { Plan } from './indexdb_handler';
+
+const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Index into Plan.schedule, which starts on Monday; Date.getDay() starts on Sunday
+export function scheduleIndex(date: Date): number {
+  return (date.getDay() + 6) % 7;
+}
+
+// Whether the plan's repeating pattern, weekdays or every N days, falls on a day.
+// Days before the plan was created don't count, so a new plan doesn't show past
+// days as missed.
+function onPattern(plan: Plan, date: Date): boolean {
+  if (plan.createdAt && format(date, 'yyyy-MM-dd') < plan.createdAt.slice(0, 10)) return false;
+  if (plan.interval) {
+    const days = differenceInCalendarDays(date, parseISO(plan.interval.from));
+    return days >= 0 && days % plan.interval.every === 0;
+  }
+  return plan.schedule[scheduleIndex(date)] === '1';
+}
+
+// Whether a plan is scheduled on a day: its pattern less skipped and postponed
+// days, plus one-off dates and the days sessions were postponed to
+export function isPlanScheduled(plan: Plan, date: Date): boolean {
+  const day = format(date, 'yyyy-MM-dd');
+  if (plan.dates?.includes(day) || plan.postponed?.some(p => p.to === day)) return true;
+  if (plan.skipped?.includes(day) || plan.postponed?.some(p => p.from === day)) return false;
+  return onPattern(plan, date);
+}
+
+export function plansScheduledOn(plans: Plan[], date: Date): Plan[] {
+  return plans.filter(plan => isPlanScheduled(plan, date));
+}
+
+export function hasSchedule(plan: Plan): boolean {
+  return plan.schedule.includes('1') || !!plan.interval || !!plan.dates?.length || !!plan.postponed?.length;
+}
+
+// Plans taking turns in a rotation, in the order they were created
+export function rotationMembers(plans: Plan[], rotation: string): Plan[] {
+  return plans
+    .filter(plan => plan.rotation === rotation)
+    .sort((a, b) => (a.id || 0) - (b.id || 0));
+}
+
+// What's due on a day. Plans outside a rotation are due whenever they're
+// scheduled. A rotation has one session on each day any of its plans is
+// scheduled, and its plans take turns: `next` holds the id of the plan due at
+// the first rotation day from `today` on, by rotation name (see loadRotations).
+// Past days, and rotations with no known next plan, list every scheduled member.
+export function plansDueOn(plans: Plan[], date: Date, next: Map<string, number> = new Map(), today = new Date()): Plan[] {
+  const scheduled = plansScheduledOn(plans, date);
+  const day = format(date, 'yyyy-MM-dd');
+  const due: Plan[] = [];
+  const rotations = new Set<string>();
+
+  for (const plan of scheduled) {
+    if (!plan.rotation) {
+      due.push(plan);
+      continue;
+    }
+    if (rotations.has(plan.rotation)) continue;
+    rotations.add(plan.rotation);
+
+    const members = rotationMembers(plans, plan.rotation);
+    const start = members.findIndex(member => member.id === next.get(plan.rotation as string));
+    if (start === -1 || day < format(today, 'yyyy-MM-dd')) {
+      due.push(...scheduled.filter(p => p.rotation === plan.rotation));
+      continue;
+    }
+
+    // Each rotation day from today up to this one uses up a turn
+    let turns = 0;
+    for (let d = today; format(d, 'yyyy-MM-dd') < day; d = addDays(d, 1)) {
+      if (members.some(member => isPlanScheduled(member, d))) turns++;
+    }
+    due.push(members[(start + turns) % members.length]);
+  }
+  return due;
+}
+
+// e.g. "Mon, Wed, Fri" or "Every 3 days · +2 dates · Rotation AB"
+export function formatSchedule(plan: Plan, today = new Date()): string {
+  const parts: string[] = [];
+  if (plan.interval) {
+    parts.push(plan.interval.every === 1 ? 'Every day' : `Every ${plan.interval.every} days`);
+  } else if (plan.schedule.includes('1')) {
+    parts.push(DAYS.filter((_, index) => plan.schedule[index] === '1').join(', '));
+  }
+
+  const upcoming = (plan.dates || []).filter(date => date >= format(today, 'yyyy-MM-dd')).length;
+  if (upcoming > 0) parts.push(`+${upcoming} date${upcoming === 1 ? '' : 's'}`);
+  if (plan.rotation) parts.push(`Rotation ${plan.rotation}`);
+  return parts.join(' · ');
+}
+
+// Skip one scheduled day. A one-off date is dropped; a postponed session is
+// skipped altogether rather than going back to its original day.
+export function skipDay(plan: Plan, day: string): Plan {
+  const movedHere = (plan.postponed || []).filter(p => p.to === day).map(p => p.from);
+  const skipped = [...(plan.skipped || []), ...movedHere];
+  if (onPattern(plan, parseISO(day))) skipped.push(day);
+
+  return {
+    ...plan,
+    dates: plan.dates?.filter(date => date !== day),
+    postponed: plan.postponed?.filter(p => p.to !== day),
+    skipped: Array.from(new Set(skipped)).sort(),
+  };
+}
+
+// Move one scheduled day's session to another day
+export function postponeDay(plan: Plan, day: string, to: string): Plan {
+  if (plan.dates?.includes(day)) {
+    return { ...plan, dates: [...plan.dates.filter(date => date !== day), to].sort() };
+  }
+  if (plan.postponed?.some(p => p.to === day)) {
+    return { ...plan, postponed: plan.postponed.map(p => p.to === day ? { ...p, to } : p) };
+  }
+  return { ...plan, postponed: [...(plan.postponed || []), { from: day, to }] };
+}
@@ -1,15 +1,28 @@
 import React from 'react';
 import { Exercise } from './indexdb_handler';
+import { MuscleGroup, Equipment, exerciseMuscles, muscleLabel, equipmentLabel } from './muscle_utils';
 
-export const filterExercises = (exercises: Exercise[], searchTerm: string): Exercise[] => {
+export interface ExerciseFilters {
+  muscle?: MuscleGroup; // Primary or secondary
+  equipment?: Equipment;
+}
+
+// Search matches the name, type, muscle groups and equipment
+export const filterExercises = (exercises: Exercise[], searchTerm: string, filters: ExerciseFilters = {}): Exercise[] => {
+  const filtered = exercises.filter(exercise =>
+    (!filters.muscle || exerciseMuscles(exercise).includes(filters.muscle)) &&
+    (!filters.equipment || exercise.equipment === filters.equipment)
+  );
   if (searchTerm.trim() === '') {
-    return exercises;
+    return filtered;
   }
   
   const lowercaseSearch = searchTerm.toLowerCase();
-  return exercises.filter(exercise => 
+  return filtered.filter(exercise => 
     exercise.name.toLowerCase().includes(lowercaseSearch) || 
-    exercise.type.toLowerCase().includes(lowercaseSearch)
+    exercise.type.toLowerCase().includes(lowercaseSearch) ||
+    exerciseMuscles(exercise).some(muscle => muscleLabel(muscle).toLowerCase().includes(lowercaseSearch)) ||
+    (exercise.equipment !== undefined && equipmentLabel(exercise.equipment).toLowerCase().includes(lowercaseSearch))
   );
 };
 
@@ -35,7 +48,7 @@ export const SearchInput: React.FC<SearchInputProps> = ({
       </div>
       <input
         type="text"
-        className={`block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${className}`}
+        className={`block w-full pl-10 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md leading-5 bg-white dark:bg-gray-800 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${className}`}
         placeholder={placeholder}
         value={value}
         onChange={onChange}
@@ -0,0 +1,85 @@
+// Source of the service worker served at /sw.js. It precaches the app shell
+// and the whole client build, so the app launches without a network. A new
+// build gets a new cache version; the new worker waits until the page asks it
+// to take over (see UpdatePrompt), then drops the old caches. Every URL is
+// under the base path, which is also the worker's scope.
+
+import { withBasePath } from './deploy_utils'
+
+export const CACHE_PREFIX = 'light-weight-'
+
+// Where the worker is served from and what it controls
+export const SERVICE_WORKER_URL = withBasePath('/sw.js')
+export const SERVICE_WORKER_SCOPE = withBasePath('/')
+
+// Files outside the Next.js build output the app needs offline
+export const APP_SHELL = [
+  '/',
+  '/manifest.webmanifest',
+  '/favicon.ico',
+  '/apple-icon.png',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+].map(withBasePath)
+
+// Message the page posts to a waiting worker to activate it
+export const SKIP_WAITING = 'SKIP_WAITING'
+
+export function buildServiceWorker(version: string, precache: string[]): string {
+  return `
+const CACHE = ${JSON.stringify(CACHE_PREFIX + version)};
+const PRECACHE = ${JSON.stringify(precache)};
+const SHELL = ${JSON.stringify(SERVICE_WORKER_SCOPE)};
+const API = ${JSON.stringify(withBasePath('/api/'))};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(PRECACHE)));
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === ${JSON.stringify(SKIP_WAITING)}) {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys
+        .filter((key) => key.startsWith(${JSON.stringify(CACHE_PREFIX)}) && key !== CACHE)
+        .map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith(API)) {
+    return;
+  }
+
+  // The app is a single page: serve the shell of this worker's build, so the
+  // page and its scripts always match until the user accepts an update
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      caches.open(CACHE)
+        .then((cache) => cache.match(SHELL))
+        .then((cached) => cached || fetch(request))
+    );
+    return;
+  }
+
+  // Everything else cache first, caching what the precache missed
+  event.respondWith(
+    caches.open(CACHE).then((cache) => cache.match(request, { ignoreSearch: true }).then((cached) => {
+      if (cached) return cached;
+      return fetch(request).then((response) => {
+        if (response.ok) cache.put(request, response.clone());
+        return response;
+      });
+    }))
+  );
+});
+`
+}
@@ -0,0 +1,98 @@
+'use client'
+
+import { Exercise, Plan, ProgramWeek, RecordSet } from './indexdb_handler'
+import { parseDefaultCount } from './exercise_utils'
+import { ProgressionSuggestion, scaleSuggestion } from './progression_utils'
+
+export interface SessionExercise {
+  name: string
+  type: Exercise['type']
+  targetSets: number
+  targetCount: number // reps for strength, seconds otherwise
+  restSeconds?: number // The exercise's own rest between sets
+  suggestion?: ProgressionSuggestion // Weight and reps the plan's progression rule aims for
+  recordId?: number // Record holding the sets logged so far
+  sets: RecordSet[]
+}
+
+export interface WorkoutSession {
+  planId?: number
+  planName: string
+  startedAt: string
+  finishedAt?: string
+  currentIndex: number
+  exercises: SessionExercise[]
+}
+
+// localStorage key, so a reload mid-workout picks the session back up
+const SESSION_KEY = 'workout_session'
+
+// Build a session from a plan. Plan exercises that no longer exist are left out.
+// Exercises with a progression rule aim for its reps instead of the plan's count.
+// A program week scales the sets and suggested weights.
+export function createSession(
+  plan: Plan,
+  exercises: Exercise[],
+  suggestions: Map<string, ProgressionSuggestion> = new Map(),
+  week?: ProgramWeek,
+): WorkoutSession {
+  const sessionExercises: SessionExercise[] = []
+
+  for (const planExercise of plan.exercises) {
+    const exercise = exercises.find(e => e.name === planExercise.name)
+    if (!exercise) continue
+
+    const defaults = parseDefaultCount(exercise.type, exercise.defaultCount)
+    const planned = suggestions.get(exercise.name)
+    const suggestion = planned && week
+      ? scaleSuggestion(planned, week.intensity, planExercise.progression?.increment ?? 0)
+      : planned
+    const targetCount = suggestion?.reps ?? planExercise.progression?.reps
+      ?? (planExercise.count === -1 ? defaults.count : planExercise.count)
+
+    sessionExercises.push({
+      name: exercise.name,
+      type: exercise.type,
+      targetSets: week ? Math.max(1, Math.round(defaults.sets * week.volume / 100)) : defaults.sets,
+      targetCount: isNaN(targetCount) ? 0 : targetCount,
+      restSeconds: exercise.restSeconds,
+      suggestion,
+      sets: [],
+    })
+  }
+
+  return {
+    planId: plan.id,
+    planName: plan.name,
+    startedAt: new Date().toISOString(),
+    currentIndex: 0,
+    exercises: sessionExercises,
+  }
+}
+
+export function formatTarget(exercise: SessionExercise): string {
+  if (exercise.targetCount <= 0) return `${exercise.targetSets} sets`
+  return exercise.type === 'strength'
+    ? `${exercise.targetSets} × ${exercise.targetCount} reps`
+    : `${exercise.targetSets} × ${exercise.targetCount}s`
+}
+
+export function loadSession(): WorkoutSession | null {
+  const saved = localStorage.getItem(SESSION_KEY)
+  if (!saved) return null
+  try {
+    return JSON.parse(saved)
+  } catch (e) {
+    console.error('Failed to parse saved workout session:', e)
+    localStorage.removeItem(SESSION_KEY)
+    return null
+  }
+}
+
+export function saveSession(session: WorkoutSession) {
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session))
+}
+
+export function clearSession() {
+  localStorage.removeItem(SESSION_KEY)
+}
@@ -0,0 +1,34 @@
+'use client'
+
+// Short beeps for timer cues, made with Web Audio so no sound files are needed
+
+let audioContext: AudioContext | null = null
+
+// Browsers only let audio start after a user gesture, so create the context
+// while handling one and reuse it for later cues
+export function unlockAudio() {
+  try {
+    audioContext = audioContext || new AudioContext()
+    audioContext.resume()
+  } catch (error) {
+    console.error('Error starting audio:', error)
+  }
+}
+
+// `count` beeps in a row; does nothing until audio has been unlocked
+export function playBeeps(count = 1, { frequency = 880, duration = 0.3 } = {}) {
+  if (!audioContext) return
+
+  const start = audioContext.currentTime
+  for (let i = 0; i < count; i++) {
+    const at = start + i * (duration + 0.1)
+    const oscillator = audioContext.createOscillator()
+    const gain = audioContext.createGain()
+    oscillator.frequency.value = frequency
+    gain.gain.setValueAtTime(0.3, at)
+    gain.gain.exponentialRampToValueAtTime(0.001, at + duration)
+    oscillator.connect(gain).connect(audioContext.destination)
+    oscillator.start(at)
+    oscillator.stop(at + duration)
+  }
+}
@@ -0,0 +1,33 @@
+// Applies the theme from the app config as a `dark` class on <html>, which the
+// Tailwind `dark:` variant keys off (see globals.css)
+
+const DARK_QUERY = '(prefers-color-scheme: dark)'
+
+// Whether a theme setting ('light', 'dark' or 'system') comes out dark
+export function isDarkTheme(theme: string): boolean {
+  return theme === 'dark' || (theme === 'system' && window.matchMedia(DARK_QUERY).matches)
+}
+
+export function applyTheme(theme: string) {
+  const dark = isDarkTheme(theme)
+  document.documentElement.classList.toggle('dark', dark)
+  document.documentElement.style.colorScheme = dark ? 'dark' : 'light'
+}
+
+// Inlined into <head> by the root layout so the theme is set before the first
+// paint, instead of flashing light until React loads the config. It reads the
+// config cookie written by config_store, and follows system changes when the
+// theme is 'system' (or not set yet).
+export const THEME_SCRIPT = `(function () {
+  function apply() {
+    try {
+      var match = document.cookie.match(/(?:^|; )workout_tracker_config=([^;]*)/);
+      var theme = match ? JSON.parse(decodeURIComponent(match[1])).theme : 'system';
+      var dark = theme === 'dark' || (theme !== 'light' && window.matchMedia('${DARK_QUERY}').matches);
+      document.documentElement.classList.toggle('dark', dark);
+      document.documentElement.style.colorScheme = dark ? 'dark' : 'light';
+    } catch (e) {}
+  }
+  apply();
+  window.matchMedia('${DARK_QUERY}').addEventListener('change', apply);
+})();`
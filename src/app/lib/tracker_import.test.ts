@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { ExerciseRecord } from './indexdb_handler';
+import { buildTrackerRecords, parseTrackerCSV } from './tracker_import';
+
+const STRONG = [
+  'Date,Workout Name,Duration,Exercise Name,Set Order,Weight,Reps,Distance,Seconds,Notes,Workout Notes,RPE,Weight Unit',
+  '2024-03-04 18:00:00,Push,45m,Bench Press (Barbell),W,60,10,0,0,,,,kg',
+  '2024-03-04 18:00:00,Push,45m,Bench Press (Barbell),1,100,5,0,0,Felt strong,,8,kg',
+  '2024-03-04 18:00:00,Push,45m,Bench Press (Barbell),Rest Timer,0,0,0,90,,,,kg',
+  '2024-03-04 18:00:00,Push,45m,Plank,1,0,0,0,60,,,,kg',
+].join('\n');
+
+const HEVY = [
+  'title,start_time,end_time,exercise_title,set_index,set_type,weight_kg,weight_lbs,reps,distance_km,distance_miles,duration_seconds,rpe,exercise_notes',
+  'Legs,"4 Mar 2024, 18:00","4 Mar 2024, 19:00",Squat (Barbell),0,normal,,225,5,,,,,',
+  'Legs,"4 Mar 2024, 18:00","4 Mar 2024, 19:00",Running,0,normal,,,,,3,1500,,',
+].join('\n');
+
+describe('parseTrackerCSV', () => {
+  it('reads a Strong export and skips rest timer rows', () => {
+    const { format, sets, skippedRows } = parseTrackerCSV(STRONG);
+    expect(format).toBe('strong');
+    expect(skippedRows).toBe(1);
+    expect(sets).toHaveLength(3);
+    expect(sets[0]).toMatchObject({ exerciseName: 'Bench Press (Barbell)', warmup: true, reps: 10, weight: 60, unit: 'kg' });
+    expect(sets[1]).toMatchObject({ warmup: false, reps: 5, weight: 100, rpe: 8, note: 'Felt strong' });
+    expect(sets[2]).toMatchObject({ exerciseName: 'Plank', seconds: 60, reps: undefined, weight: undefined });
+  });
+
+  it('reads a Hevy export in lbs and converts miles to km', () => {
+    const { format, sets } = parseTrackerCSV(HEVY);
+    expect(format).toBe('hevy');
+    expect(sets[0]).toMatchObject({ exerciseName: 'Squat (Barbell)', reps: 5, weight: 225, unit: 'lbs' });
+    expect(sets[1].distance).toBeCloseTo(4.828, 3);
+  });
+
+  it('rejects files from other apps', () => {
+    expect(() => parseTrackerCSV('date,exercise\n2024-03-04,Squat')).toThrow();
+  });
+});
+
+describe('buildTrackerRecords', () => {
+  const { sets } = parseTrackerCSV(STRONG);
+
+  it('groups sets of one workout and exercise into a record', () => {
+    const { records, duplicates, workouts } = buildTrackerRecords(sets, { Plank: 'Front Plank' }, 'lbs', []);
+    expect(duplicates).toBe(0);
+    expect(workouts).toBe(1);
+    expect(records.map(record => record.exerciseName)).toEqual(['Bench Press (Barbell)', 'Front Plank']);
+    expect(records[0]).toMatchObject({ date: '2024-03-04', time: '18:00:00', note: 'Felt strong' });
+    expect(records[0].sets).toHaveLength(2);
+  });
+
+  it('skips records already imported', () => {
+    const first = buildTrackerRecords(sets, {}, 'lbs', []);
+    const existing = first.records.map((record, id) => ({ ...record, id })) as ExerciseRecord[];
+    const again = buildTrackerRecords(sets, {}, 'lbs', existing);
+    expect(again.records).toEqual([]);
+    expect(again.duplicates).toBe(2);
+  });
+
+  it('keeps a workout whose sets match in weight but not in unit', () => {
+    const existing = buildTrackerRecords(sets, {}, 'lbs', []).records
+      .map((record, id) => ({ ...record, id, sets: record.sets?.map(set => ({ ...set, unit: 'lbs' as const })) }));
+    const again = buildTrackerRecords(sets, {}, 'lbs', existing as ExerciseRecord[]);
+    expect(again.records.map(record => record.exerciseName)).toEqual(['Bench Press (Barbell)']);
+    expect(again.duplicates).toBe(1);
+  });
+});
@@ -0,0 +1,248 @@
+import { parse, isValid, format } from 'date-fns';
+import { Exercise, ExerciseRecord, NewExerciseRecord, RecordSet } from './indexdb_handler';
+import { getRecordSets, summarizeSets } from './record_utils';
+import { parseCSV } from './csv_utils';
+import { ExerciseAliases } from './alias_store';
+
+// Importers for the CSV exports of other workout trackers. Both apps write
+// one row per set; rows that share a workout start time and exercise become
+// one record here.
+
+export type TrackerFormat = 'strong' | 'hevy';
+
+export const TRACKER_NAMES: Record<TrackerFormat, string> = {
+  strong: 'Strong',
+  hevy: 'Hevy',
+};
+
+export interface TrackerSet {
+  start: Date; // Workout start
+  exerciseName: string; // Name used by the other app
+  warmup: boolean;
+  reps?: number;
+  seconds?: number;
+  distance?: number; // Kilometres for Hevy; Strong writes whatever unit the app was set to
+  weight?: number;
+  unit: 'kg' | 'lbs' | null; // Null when the export doesn't say
+  rpe: number | null;
+  note: string;
+}
+
+export interface TrackerExport {
+  format: TrackerFormat;
+  sets: TrackerSet[];
+  skippedRows: number;
+}
+
+export function detectTrackerFormat(header: string[]): TrackerFormat | null {
+  if (header.includes('Exercise Name') && header.includes('Set Order')) return 'strong';
+  if (header.includes('exercise_title') && header.includes('set_index')) return 'hevy';
+  return null;
+}
+
+const HEVY_DATE_FORMATS = ['d MMM yyyy, HH:mm', 'yyyy-MM-dd HH:mm:ss', "yyyy-MM-dd'T'HH:mm:ss"];
+
+function parseDate(value: string, formats: string[]): Date | null {
+  for (const f of formats) {
+    const date = parse(value.trim(), f, new Date());
+    if (isValid(date)) return date;
+  }
+  return null;
+}
+
+// Positive number or undefined, so empty and zero cells read as missing
+function positive(value: string): number | undefined {
+  const number = parseFloat(value);
+  return !isNaN(number) && number > 0 ? number : undefined;
+}
+
+const KM_PER_MILE = 1.609344;
+
+function parseRPE(value: string): number | null {
+  const rpe = parseFloat(value);
+  return isNaN(rpe) ? null : rpe;
+}
+
+// Parse a Strong or Hevy export. Throws when the layout isn't recognised.
+export function parseTrackerCSV(text: string): TrackerExport {
+  const [header = [], ...rows] = parseCSV(text);
+  const trackerFormat = detectTrackerFormat(header);
+  if (!trackerFormat) {
+    throw new Error('The file is not a Strong or Hevy export');
+  }
+
+  const cell = (row: string[], name: string) => {
+    const index = header.indexOf(name);
+    return index >= 0 ? (row[index] ?? '').trim() : '';
+  };
+
+  const sets: TrackerSet[] = [];
+  let skippedRows = 0;
+
+  for (const row of rows) {
+    let set: TrackerSet | null = null;
+
+    if (trackerFormat === 'strong') {
+      const start = parseDate(cell(row, 'Date'), ['yyyy-MM-dd HH:mm:ss', 'yyyy-MM-dd HH:mm']);
+      const setOrder = cell(row, 'Set Order');
+      // Newer exports interleave "Rest Timer" rows between sets
+      if (start && cell(row, 'Exercise Name') && setOrder !== 'Rest Timer') {
+        const unit = cell(row, 'Weight Unit').toLowerCase();
+        set = {
+          start,
+          exerciseName: cell(row, 'Exercise Name'),
+          warmup: setOrder === 'W',
+          reps: positive(cell(row, 'Reps')),
+          seconds: positive(cell(row, 'Seconds')),
+          distance: positive(cell(row, 'Distance')),
+          weight: positive(cell(row, 'Weight')),
+          unit: unit === 'kg' ? 'kg' : unit.startsWith('lb') ? 'lbs' : null,
+          rpe: parseRPE(cell(row, 'RPE')),
+          note: cell(row, 'Notes'),
+        };
+      }
+    } else {
+      const start = parseDate(cell(row, 'start_time'), HEVY_DATE_FORMATS);
+      if (start && cell(row, 'exercise_title')) {
+        const kg = positive(cell(row, 'weight_kg'));
+        const lbs = positive(cell(row, 'weight_lbs'));
+        // Exports from accounts set to imperial units fill distance_miles instead
+        const distanceKm = positive(cell(row, 'distance_km'));
+        const distanceMiles = positive(cell(row, 'distance_miles'));
+        set = {
+          start,
+          exerciseName: cell(row, 'exercise_title'),
+          warmup: cell(row, 'set_type') === 'warmup',
+          reps: positive(cell(row, 'reps')),
+          seconds: positive(cell(row, 'duration_seconds')),
+          distance: distanceKm ?? (distanceMiles && distanceMiles * KM_PER_MILE),
+          weight: kg ?? lbs,
+          unit: kg ? 'kg' : lbs ? 'lbs' : null,
+          rpe: parseRPE(cell(row, 'rpe')),
+          note: cell(row, 'exercise_notes'),
+        };
+      }
+    }
+
+    if (set) {
+      sets.push(set);
+    } else {
+      skippedRows++;
+    }
+  }
+
+  return { format: trackerFormat, sets, skippedRows };
+}
+
+const CORE_PATTERN = /plank|crunch|sit[- ]?up|hollow|dead bug|leg raise|ab wheel|russian twist|v[- ]?up|flutter kick/i;
+
+// Core by name, cardio when most sets are timed or distance-only, strength otherwise
+export function guessExerciseType(name: string, sets: TrackerSet[]): Exercise['type'] {
+  if (CORE_PATTERN.test(name)) return 'core';
+  const timed = sets.filter(set => !set.reps && (set.seconds || set.distance)).length;
+  return timed > sets.length / 2 ? 'cardio' : 'strength';
+}
+
+// Strong and Hevy add the equipment in brackets, e.g. "Bench Press (Barbell)"
+const baseName = (name: string) => name.replace(/\s*\([^)]*\)\s*$/, '').trim().toLowerCase();
+
+// Existing exercise a name most likely refers to, or the name itself
+export function suggestAlias(name: string, exercises: Exercise[]): string {
+  const exact = exercises.find(e => e.name.toLowerCase() === name.toLowerCase());
+  if (exact) return exact.name;
+  const base = exercises.find(e => baseName(e.name) === baseName(name));
+  return base ? base.name : name;
+}
+
+export interface TrackerExercise {
+  sourceName: string;
+  setCount: number;
+  type: Exercise['type'];
+}
+
+export function listTrackerExercises(sets: TrackerSet[]): TrackerExercise[] {
+  const byName = new Map<string, TrackerSet[]>();
+  for (const set of sets) {
+    byName.set(set.exerciseName, [...(byName.get(set.exerciseName) || []), set]);
+  }
+  return Array.from(byName, ([sourceName, exerciseSets]) => ({
+    sourceName,
+    setCount: exerciseSets.length,
+    type: guessExerciseType(sourceName, exerciseSets),
+  }));
+}
+
+// Identifies a workout independent of its id, for skipping records already
+// imported. The unit is part of it, so 100kg and 100lbs sets don't match.
+function recordKey(record: Pick<ExerciseRecord, 'exerciseName' | 'date' | 'time'>, sets: RecordSet[]): string {
+  const setKeys = sets.map(set =>
+    `${set.count}x${set.weight ? `${set.weight}${set.unit || 'lbs'}` : ''}${set.warmup ? 'w' : ''}`);
+  return `${record.exerciseName}|${record.date}|${record.time}|${setKeys.join(',')}`;
+}
+
+export interface TrackerImportPlan {
+  records: NewExerciseRecord[];
+  duplicates: number;
+  workouts: number;
+}
+
+// Build records from parsed sets. `aliases` maps each source name to the
+// exercise to log it under; `existing` holds the records already saved over
+// the same dates, so importing the same file twice adds nothing.
+export function buildTrackerRecords(
+  sets: TrackerSet[],
+  aliases: ExerciseAliases,
+  defaultUnit: 'kg' | 'lbs',
+  existing: ExerciseRecord[],
+): TrackerImportPlan {
+  const grouped = new Map<string, NewExerciseRecord>();
+
+  for (const set of sets) {
+    // Reps for lifts, otherwise the duration
+    const count = set.reps ?? set.seconds;
+    if (!count) continue;
+
+    const exerciseName = aliases[set.exerciseName] || set.exerciseName;
+    const date = format(set.start, 'yyyy-MM-dd');
+    const time = format(set.start, 'HH:mm:ss');
+    const key = `${date}|${time}|${exerciseName}`;
+
+    const record = grouped.get(key) || { exerciseName, date, time, sets: [], count: 0, rpe: null, note: '' };
+    record.sets = [...(record.sets || []), {
+      count: Math.round(count),
+      weight: set.weight,
+      unit: set.unit || defaultUnit,
+      rpe: set.rpe,
+      warmup: set.warmup,
+    }];
+    if (set.note && !record.note.includes(set.note)) {
+      record.note = record.note ? `${record.note}; ${set.note}` : set.note;
+    }
+    grouped.set(key, record);
+  }
+
+  const seen = new Set(existing.map(record => recordKey(record, getRecordSets(record))));
+  const records: NewExerciseRecord[] = [];
+  let duplicates = 0;
+
+  for (const record of Array.from(grouped.values())) {
+    Object.assign(record, summarizeSets(record.sets || []));
+    const key = recordKey(record, record.sets || []);
+    if (seen.has(key)) {
+      duplicates++;
+      continue;
+    }
+    seen.add(key);
+    records.push(record);
+  }
+
+  const workouts = new Set(records.map(record => `${record.date} ${record.time}`)).size;
+  return { records, duplicates, workouts };
+}
+
+// First and last workout dates, for loading the records to dedupe against
+export function trackerDateRange(sets: TrackerSet[]): [string, string] | null {
+  if (sets.length === 0) return null;
+  const dates = sets.map(set => format(set.start, 'yyyy-MM-dd')).sort();
+  return [dates[0], dates[dates.length - 1]];
+}
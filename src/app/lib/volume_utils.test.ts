@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Exercise, ExerciseRecord, RecordSet } from './indexdb_handler';
+import {
+  DEFAULT_VOLUME_TARGET, effectiveSets, rangeDays, scaleTarget, summarizeVolume, targetStatus, volumeTargetError,
+} from './volume_utils';
+
+const exercises: Exercise[] = [
+  { name: 'Bench Press', type: 'strength', defaultCount: '8', instruction: '', primaryMuscles: ['chest'], secondaryMuscles: ['triceps'] },
+  { name: 'Pull-ups', type: 'strength', defaultCount: '8', instruction: '', primaryMuscles: ['back'], bodyweight: true },
+  { name: 'Plank', type: 'core', defaultCount: '60', instruction: '', primaryMuscles: ['abs'] },
+  { name: 'Running', type: 'cardio', defaultCount: '1800', instruction: '', primaryMuscles: ['quads'] },
+  { name: 'Curl', type: 'strength', defaultCount: '10', instruction: '' },
+];
+
+const record = (exerciseName: string, sets: RecordSet[]): ExerciseRecord =>
+  ({ exerciseName, date: '2024-03-04', time: '18:00:00', count: 0, rpe: null, note: '', sets });
+
+const set = (count: number, weight?: number, unit: 'kg' | 'lbs' = 'kg', warmup = false): RecordSet =>
+  ({ count, weight, unit, rpe: null, warmup });
+
+describe('summarizeVolume', () => {
+  const records = [
+    record('Bench Press', [set(10, 40, 'kg', true), set(5, 100), set(5, 225, 'lbs')]),
+    record('Pull-ups', [set(8), set(8, 10)]),
+    record('Plank', [set(60), set(45)]),
+    record('Running', [set(1800)]),
+    record('Curl', [set(10, 15)]),
+    record('Deleted Exercise', [set(10, 50)]),
+  ];
+
+  it('counts working sets for primary and secondary muscles', () => {
+    const { muscles } = summarizeVolume(records, exercises, 'kg');
+    expect(muscles.get('chest')).toMatchObject({ primarySets: 2, secondarySets: 0 });
+    expect(muscles.get('triceps')).toMatchObject({ primarySets: 0, secondarySets: 2 });
+    expect(effectiveSets(muscles.get('triceps'))).toBe(1);
+    expect(muscles.get('abs')).toMatchObject({ primarySets: 2, primaryTonnage: 0 });
+    // Cardio adds nothing
+    expect(muscles.has('quads')).toBe(false);
+  });
+
+  it('adds kg and lbs tonnage in the unit asked for', () => {
+    const kg = summarizeVolume(records, exercises, 'kg').muscles;
+    expect(kg.get('chest')?.primaryTonnage).toBeCloseTo(500 + 5 * 102.06, 1);
+    expect(kg.get('triceps')?.secondaryTonnage).toBe(kg.get('chest')?.primaryTonnage);
+    expect(summarizeVolume(records, exercises, 'lbs').muscles.get('chest')?.primaryTonnage).toBeCloseTo(5 * 220.46 + 1125, 1);
+    // Only the added load of bodyweight exercises counts
+    expect(kg.get('back')).toMatchObject({ primarySets: 2, primaryTonnage: 80 });
+  });
+
+  it('lists exercises without muscle groups', () => {
+    expect(summarizeVolume(records, exercises, 'kg').unmapped).toEqual(['Curl']);
+  });
+});
+
+describe('volume targets', () => {
+  it('scales weekly targets to the range', () => {
+    expect(rangeDays('2024-03-01', '2024-03-14')).toBe(14);
+    expect(scaleTarget(DEFAULT_VOLUME_TARGET, 14)).toEqual({ min: 20, max: 40 });
+    expect(scaleTarget(DEFAULT_VOLUME_TARGET, 3)).toEqual({ min: 4, max: 9 });
+  });
+
+  it('compares sets to a target', () => {
+    expect(targetStatus(9.5, DEFAULT_VOLUME_TARGET)).toBe('below');
+    expect(targetStatus(20, DEFAULT_VOLUME_TARGET)).toBe('within');
+    expect(targetStatus(21, DEFAULT_VOLUME_TARGET)).toBe('above');
+  });
+
+  it('rejects targets that cannot be met', () => {
+    expect(volumeTargetError({ min: 8, max: 12 })).toBeNull();
+    expect(volumeTargetError({ min: -1, max: 12 })).toBe('Targets must be numbers of sets');
+    expect(volumeTargetError({ min: 12, max: 8 })).toBe('The most sets must be at least the fewest');
+  });
+});
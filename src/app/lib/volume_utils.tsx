@@ -0,0 +1,157 @@
+import { format, addDays, addWeeks, startOfWeek, parseISO, differenceInCalendarDays } from 'date-fns';
+import { Exercise, ExerciseRecord } from './indexdb_handler';
+import { ExerciseStorage } from './db_store';
+import { getRecordSets, workingSets, convertWeight } from './record_utils';
+import { MuscleGroup } from './muscle_utils';
+
+// Training volume per muscle group, from each exercise's muscle mapping. Every
+// working set of a strength or core exercise is a hard set for the muscles it
+// works; warm-ups and cardio don't count. Tonnage only counts the weight logged,
+// so bodyweight exercises add sets but only their extra load.
+
+// A set counts this much toward a secondary muscle when comparing to targets
+export const SECONDARY_SET_WEIGHT = 0.5;
+
+// Weeks shown in the trend, ending with the week of the range
+export const TREND_WEEKS = 8;
+
+// Hard sets a week
+export interface VolumeTarget {
+  min: number;
+  max: number;
+}
+
+export type VolumeTargets = Partial<Record<MuscleGroup, VolumeTarget>>;
+
+export const DEFAULT_VOLUME_TARGET: VolumeTarget = { min: 10, max: 20 };
+
+export interface MuscleVolume {
+  primarySets: number;
+  secondarySets: number;
+  primaryTonnage: number; // In the unit asked for
+  secondaryTonnage: number;
+}
+
+export interface VolumeSummary {
+  muscles: Map<MuscleGroup, MuscleVolume>;
+  unmapped: string[]; // Exercises trained in the range with no muscle groups set
+}
+
+export interface WeekVolume {
+  weekStart: string; // Monday, yyyy-MM-dd
+  muscles: Map<MuscleGroup, MuscleVolume>;
+}
+
+export interface VolumeReport {
+  range: VolumeSummary;
+  weeks: WeekVolume[]; // Oldest first
+}
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+const emptyVolume = (): MuscleVolume => ({ primarySets: 0, secondarySets: 0, primaryTonnage: 0, secondaryTonnage: 0 });
+
+// Primary sets plus weighted secondary sets, the number targets are compared against
+export function effectiveSets(volume: MuscleVolume | undefined): number {
+  return volume ? volume.primarySets + volume.secondarySets * SECONDARY_SET_WEIGHT : 0;
+}
+
+export function targetFor(targets: VolumeTargets, muscle: MuscleGroup): VolumeTarget {
+  return targets[muscle] || DEFAULT_VOLUME_TARGET;
+}
+
+// Weekly targets stretched to a range of `days` days
+export function scaleTarget(target: VolumeTarget, days: number): VolumeTarget {
+  const weeks = days / 7;
+  return { min: Math.round(target.min * weeks), max: Math.round(target.max * weeks) };
+}
+
+export function targetStatus(sets: number, target: VolumeTarget): 'below' | 'within' | 'above' {
+  if (sets < target.min) return 'below';
+  return sets > target.max ? 'above' : 'within';
+}
+
+export function volumeTargetError(target: VolumeTarget): string | null {
+  if (!Number.isFinite(target.min) || !Number.isFinite(target.max) || target.min < 0) {
+    return 'Targets must be numbers of sets';
+  }
+  if (target.max < target.min) {
+    return 'The most sets must be at least the fewest';
+  }
+  return null;
+}
+
+export function summarizeVolume(records: ExerciseRecord[], exercises: Exercise[], unit: 'kg' | 'lbs'): VolumeSummary {
+  const byName = new Map(exercises.map(exercise => [exercise.name, exercise]));
+  const muscles = new Map<MuscleGroup, MuscleVolume>();
+  const unmapped = new Set<string>();
+
+  const add = (muscle: MuscleGroup, sets: number, tonnage: number, primary: boolean) => {
+    const volume = muscles.get(muscle) || emptyVolume();
+    if (primary) {
+      volume.primarySets += sets;
+      volume.primaryTonnage += tonnage;
+    } else {
+      volume.secondarySets += sets;
+      volume.secondaryTonnage += tonnage;
+    }
+    muscles.set(muscle, volume);
+  };
+
+  for (const record of records) {
+    const exercise = byName.get(record.exerciseName);
+    if (!exercise || exercise.type === 'cardio') continue;
+
+    const sets = workingSets(getRecordSets(record));
+    if (sets.length === 0) continue;
+    if (!exercise.primaryMuscles?.length && !exercise.secondaryMuscles?.length) {
+      unmapped.add(exercise.name);
+      continue;
+    }
+
+    // Core sets are timed, so weight times count is only tonnage for strength
+    const tonnage = exercise.type === 'strength'
+      ? sets.reduce((sum, set) => sum + (set.weight ? set.count * convertWeight(set.weight, set.unit || 'lbs', unit) : 0), 0)
+      : 0;
+    exercise.primaryMuscles?.forEach(muscle => add(muscle, sets.length, tonnage, true));
+    exercise.secondaryMuscles?.forEach(muscle => add(muscle, sets.length, tonnage, false));
+  }
+
+  return { muscles, unmapped: Array.from(unmapped).sort() };
+}
+
+// Volume for a date range plus the weekly trend up to it, from one range query
+export async function loadVolume(
+  db: ExerciseStorage,
+  from: string,
+  to: string,
+  unit: 'kg' | 'lbs',
+): Promise<VolumeReport> {
+  const lastWeek = startOfWeek(parseISO(to), WEEK_OPTIONS);
+  const firstWeek = addWeeks(lastWeek, -(TREND_WEEKS - 1));
+  const trendStart = format(firstWeek, 'yyyy-MM-dd');
+  const trendEnd = format(addDays(lastWeek, 6), 'yyyy-MM-dd');
+
+  const [records, exercises] = await Promise.all([
+    db.getRecordsByDateRange(from < trendStart ? from : trendStart, to > trendEnd ? to : trendEnd),
+    db.getAllExercises(),
+  ]);
+
+  const weeks = Array.from({ length: TREND_WEEKS }, (_, index) => {
+    const start = addWeeks(firstWeek, index);
+    const weekStart = format(start, 'yyyy-MM-dd');
+    const weekEnd = format(addDays(start, 6), 'yyyy-MM-dd');
+    const inWeek = records.filter(record => record.date >= weekStart && record.date <= weekEnd);
+    return { weekStart, muscles: summarizeVolume(inWeek, exercises, unit).muscles };
+  });
+
+  return {
+    range: summarizeVolume(records.filter(record => record.date >= from && record.date <= to), exercises, unit),
+    weeks,
+  };
+}
+
+// Days in an inclusive yyyy-MM-dd range
+export function rangeDays(from: string, to: string): number {
+  return differenceInCalendarDays(parseISO(to), parseISO(from)) + 1;
+}
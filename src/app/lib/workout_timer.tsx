@@ -0,0 +1,82 @@
+// Stopwatch, countdown and interval (work/rest rounds) timing for cardio and
+// core exercises. The clock is kept as timestamps rather than a counter, so it
+// stays accurate while the tab is in the background.
+
+export type TimerMode = 'stopwatch' | 'countdown' | 'interval';
+
+export const TIMER_MODES: { mode: TimerMode, label: string }[] = [
+  { mode: 'stopwatch', label: 'Stopwatch' },
+  { mode: 'countdown', label: 'Countdown' },
+  { mode: 'interval', label: 'Intervals' },
+];
+
+// Seconds of work and rest per round
+export interface IntervalProtocol {
+  work: number;
+  rest: number;
+  rounds: number;
+}
+
+export const INTERVAL_PRESETS: { name: string, protocol: IntervalProtocol }[] = [
+  { name: 'Tabata', protocol: { work: 20, rest: 10, rounds: 8 } },
+  { name: 'EMOM 10', protocol: { work: 60, rest: 0, rounds: 10 } },
+  { name: '30/30', protocol: { work: 30, rest: 30, rounds: 10 } },
+  { name: '40/20', protocol: { work: 40, rest: 20, rounds: 8 } },
+];
+
+export interface TimerClock {
+  startedAt: number | null; // ms since epoch, null while paused
+  accumulated: number; // ms run before the last pause
+}
+
+export const newClock = (): TimerClock => ({ startedAt: null, accumulated: 0 });
+
+export function elapsedSeconds(clock: TimerClock, now = Date.now()): number {
+  const running = clock.startedAt !== null ? now - clock.startedAt : 0;
+  return (clock.accumulated + running) / 1000;
+}
+
+export function startClock(clock: TimerClock, now = Date.now()): TimerClock {
+  return clock.startedAt !== null ? clock : { ...clock, startedAt: now };
+}
+
+export function pauseClock(clock: TimerClock, now = Date.now()): TimerClock {
+  if (clock.startedAt === null) return clock;
+  return { startedAt: null, accumulated: clock.accumulated + now - clock.startedAt };
+}
+
+// Total length; the last round ends with its work, without a rest after it
+export function intervalDuration(protocol: IntervalProtocol): number {
+  return (protocol.work + protocol.rest) * protocol.rounds - protocol.rest;
+}
+
+export interface IntervalState {
+  round: number; // 1-based
+  phase: 'work' | 'rest' | 'done';
+  remaining: number; // seconds left in the phase
+}
+
+export function intervalState(protocol: IntervalProtocol, elapsed: number): IntervalState {
+  if (elapsed >= intervalDuration(protocol)) {
+    return { round: protocol.rounds, phase: 'done', remaining: 0 };
+  }
+
+  const roundLength = protocol.work + protocol.rest;
+  const round = Math.floor(elapsed / roundLength);
+  const intoRound = elapsed - round * roundLength;
+  return intoRound < protocol.work
+    ? { round: round + 1, phase: 'work', remaining: protocol.work - intoRound }
+    : { round: round + 1, phase: 'rest', remaining: roundLength - intoRound };
+}
+
+// Seconds worked in each round so far, one set per round. A round cut short
+// counts the work done before stopping.
+export function intervalWorkSets(protocol: IntervalProtocol, elapsed: number): number[] {
+  const sets: number[] = [];
+  for (let round = 0; round < protocol.rounds; round++) {
+    const intoRound = elapsed - round * (protocol.work + protocol.rest);
+    if (intoRound < 1) break;
+    sets.push(Math.min(protocol.work, Math.floor(intoRound)));
+  }
+  return sets;
+}
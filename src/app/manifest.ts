@@ -0,0 +1,22 @@
+import type { MetadataRoute } from "next";
+import { withBasePath } from "./lib/deploy_utils";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Light Weight Baby",
+    short_name: "Light Weight",
+    description: "Weightlifting app",
+    // The app and its icons live under the base path on GitHub Pages
+    start_url: withBasePath("/"),
+    scope: withBasePath("/"),
+    display: "standalone",
+    orientation: "portrait",
+    background_color: "#ffffff",
+    theme_color: "#2563eb",
+    icons: [
+      { src: withBasePath("/icons/icon-192.png"), sizes: "192x192", type: "image/png" },
+      { src: withBasePath("/icons/icon-512.png"), sizes: "512x512", type: "image/png" },
+      { src: withBasePath("/icons/icon-512.png"), sizes: "512x512", type: "image/png", purpose: "maskable" },
+    ],
+  };
+}
@@ -11,4 +11,5 @@ import type { Viewport } from 'next'
 export const viewport: Viewport = {
   width: 'device-width',
   initialScale: 1,
+  themeColor: '#2563eb',
 }
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { readdir } from 'fs/promises'
+import path from 'path'
+import { createHash } from 'crypto'
+import { APP_SHELL, buildServiceWorker } from '@/app/lib/service_worker'
+import { withBasePath } from '@/app/lib/deploy_utils'
+
+// Generated once at build time, when the client build is already on disk
+export const dynamic = 'force-static'
+
+const STATIC_DIR = path.join(process.cwd(), '.next', 'static')
+
+// URLs of every file in the client build, e.g. /_next/static/chunks/main-1a2b.js
+// under the base path
+async function listBuildAssets(): Promise<string[]> {
+  try {
+    const files = await readdir(STATIC_DIR, { recursive: true, withFileTypes: true })
+    return files
+      .filter(file => file.isFile() && !file.name.endsWith('.map'))
+      .map(file => path.relative(STATIC_DIR, path.join(file.parentPath, file.name)).split(path.sep).join('/'))
+      .map(file => withBasePath(`/_next/static/${file}`))
+      .sort()
+  } catch (error) {
+    console.error('Error listing build assets for the service worker:', error)
+    return []
+  }
+}
+
+export async function GET() {
+  const assets = await listBuildAssets()
+  // Hashed file names change with every build, so they make a good cache version
+  const version = createHash('sha256').update(assets.join('\n')).digest('hex').slice(0, 12)
+
+  return new Response(buildServiceWorker(version, [...APP_SHELL, ...assets]), {
+    headers: {
+      'Content-Type': 'application/javascript; charset=utf-8',
+      'Cache-Control': 'no-cache',
+    },
+  })
+}